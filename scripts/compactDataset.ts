@@ -0,0 +1,39 @@
+/**
+ * Writes a dataset in the compact format the app loads: a structure file
+ * with the subject ids and links, and a metadata file with the subject
+ * details, loaded after the graph is first drawn.
+ *
+ * Usage: npm run compact-dataset -- [data.json] [output directory] [name]
+ */
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { compactGraph } from "../src/compact";
+import type { GraphData } from "../src/types";
+
+async function main(args: string[]) {
+  const [input = "src/data.json", outDir = "public/datasets", name = "uts"] =
+    args;
+
+  const data: GraphData = JSON.parse(await readFile(input, "utf8"));
+  const { structure, metadata } = compactGraph(data);
+
+  await mkdir(outDir, { recursive: true });
+  const files: [string, unknown][] = [
+    [`${name}.structure.json`, structure],
+    [`${name}.metadata.json`, metadata],
+  ];
+  for (const [fileName, contents] of files) {
+    const text = JSON.stringify(contents);
+    await writeFile(join(outDir, fileName), text);
+    console.log(`${join(outDir, fileName)}: ${text.length} bytes`);
+  }
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,46 @@
+/**
+ * Reports what changed between two versions of a dataset in the shape of
+ * `data.json`: added, removed and renamed subjects, added and removed
+ * links, and the subjects whose dependents changed as a result.
+ *
+ * Usage: npm run diff-datasets -- <before.json> <after.json> [--json]
+ */
+import { readFile } from "node:fs/promises";
+import { countChanges, diffDatasets, summariseChanges } from "../src/diff";
+import type { GraphData } from "../src/types";
+
+const readJson = async <T>(path: string): Promise<T> =>
+  JSON.parse(await readFile(path, "utf8"));
+
+async function main(args: string[]) {
+  const json = args.includes("--json");
+  const [beforePath, afterPath] = args.filter((arg) => arg !== "--json");
+  if (!beforePath || !afterPath) {
+    console.error(
+      "Usage: npm run diff-datasets -- <before.json> <after.json> [--json]"
+    );
+    return 2;
+  }
+
+  const changes = diffDatasets(
+    await readJson<GraphData>(beforePath),
+    await readJson<GraphData>(afterPath)
+  );
+
+  if (json) {
+    console.log(
+      JSON.stringify({ counts: countChanges(changes), changes }, null, 2)
+    );
+  } else {
+    console.log(summariseChanges(changes));
+  }
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,68 @@
+/**
+ * Builds `data.json`, `nodes.json` and `edges.json` from a directory of
+ * saved UTS handbook subject pages, without any network access.
+ *
+ * Usage: npm run import-handbook -- <pages directory> [output directory]
+ */
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { importHandbook } from "../src/handbook";
+
+// Matches the formatting of the checked in dataset
+const stringify = (value: unknown) => JSON.stringify(value, null, 4);
+
+async function main(args: string[]) {
+  const [pagesDir, outDir = "src"] = args;
+  if (!pagesDir) {
+    console.error(
+      "Usage: npm run import-handbook -- <pages directory> [output directory]"
+    );
+    return 2;
+  }
+
+  const fileNames = (await readdir(pagesDir))
+    .filter((fileName) => /\.html?$/i.test(fileName))
+    .sort();
+  const pages = await Promise.all(
+    fileNames.map(async (fileName) => ({
+      fileName,
+      html: await readFile(join(pagesDir, fileName), "utf8"),
+    }))
+  );
+
+  const { data, problems } = importHandbook(pages);
+
+  for (const problem of problems) {
+    if (problem.type === "unparseable") {
+      console.error(`unparseable: ${problem.source}: ${problem.message}`);
+    } else {
+      console.error(
+        `unresolved: ${problem.source} references ${problem.code}, which has no page`
+      );
+    }
+  }
+
+  const parsed =
+    pages.length - problems.filter((p) => p.type === "unparseable").length;
+  if (parsed === 0) {
+    console.error(`No subject pages could be read from ${pagesDir}`);
+    return 1;
+  }
+
+  await writeFile(join(outDir, "data.json"), stringify(data));
+  await writeFile(join(outDir, "nodes.json"), stringify(data.nodes));
+  await writeFile(join(outDir, "edges.json"), stringify(data.links));
+
+  console.log(
+    `Imported ${parsed} of ${pages.length} pages: ${data.nodes.length} nodes, ${data.links.length} links, ${problems.length} problems`
+  );
+  return 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  }
+);
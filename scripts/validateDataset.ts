@@ -0,0 +1,52 @@
+/**
+ * Checks `data.json`, `nodes.json` and `edges.json` for dangling edges,
+ * duplicates, self-loops, missing fields, cycles, redundant requisites and
+ * disagreements between the three files.
+ *
+ * Usage: npm run validate-dataset -- [dataset directory] [--json]
+ */
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { DirectedEdge, GraphData, Node } from "../src/types";
+import {
+  compareSplitFiles,
+  countIssues,
+  summariseIssues,
+  validateGraph,
+  WARNING_TYPES,
+} from "../src/validate";
+
+const readJson = async <T>(path: string): Promise<T> =>
+  JSON.parse(await readFile(path, "utf8"));
+
+async function main(args: string[]) {
+  const json = args.includes("--json");
+  const [dir = "src"] = args.filter((arg) => arg !== "--json");
+
+  const data = await readJson<GraphData>(join(dir, "data.json"));
+  const nodes = await readJson<Node[]>(join(dir, "nodes.json"));
+  const edges = await readJson<DirectedEdge[]>(join(dir, "edges.json"));
+
+  const issues = [
+    ...validateGraph(data),
+    ...compareSplitFiles(data, nodes, edges),
+  ];
+  const errors = issues.filter((issue) => !WARNING_TYPES.has(issue.type));
+
+  if (json) {
+    console.log(
+      JSON.stringify({ counts: countIssues(issues), issues }, null, 2)
+    );
+  } else {
+    console.log(summariseIssues(issues));
+  }
+  return errors.length > 0 ? 1 : 0;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error(error);
+    process.exit(1);
+  }
+);
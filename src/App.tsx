@@ -1,46 +1,222 @@
 import { useControls } from "leva";
-import { useCallback, useMemo } from "react";
-import { ForceGraph3D } from "react-force-graph";
-import SpriteText from "three-spritetext";
-import graphData from "./data.json";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { METRICS } from "./analytics";
+import type { Metric, SubjectMetrics } from "./analytics";
 import {
+  courseOf,
+  courseSummary,
+  crossCourseLinks,
+  filterCourses,
+  formatCourseRules,
+  parseCourseRules,
+} from "./courses";
+import type { CourseLink, CourseNode } from "./courses";
+import { useDataset } from "./DatasetContext";
+import { linkStatus } from "./diff";
+import type { ChangeStatus } from "./diff";
+import { Graph } from "./graph";
+import { GraphView, RENDERERS, webglAvailable } from "./GraphView";
+import type { Renderer } from "./GraphView";
+import {
+  useSearchParamsStateArray,
+  useSearchParamsStateArrayNumber,
+  useSearchParamsState,
   useSearchParamsStateBoolean,
   useSearchParamsStateNumber,
+  useCentrality,
+  useQuery,
+  useQueryService,
   useWindowSize,
 } from "./hooks";
 import {
-  ancestors,
-  descendants,
-  dijkstraShortestPath,
-  undirected,
+  combine,
+  frontier,
+  membership,
+  RELATIONS,
+  subjectStatus,
+} from "./search";
+import type {
+  EdgeWeightName,
+  ImpliedLink,
+  Relation,
+  SetOperation,
+  SubjectStatus,
 } from "./search";
+import { studyPlan } from "./plan";
+import { subjectName } from "./subjects";
+import { CompletedPanel } from "./CompletedPanel";
+import { CourseLegend } from "./CourseLegend";
+import { CyclesPanel } from "./CyclesPanel";
+import { DatasetPicker } from "./DatasetPicker";
+import { DataWarnings } from "./DataWarnings";
+import { DiffPanel } from "./DiffPanel";
+import { ExportMenu } from "./ExportMenu";
+import { FocusPanel } from "./FocusPanel";
+import { GatewayTable } from "./GatewayTable";
+import { MetricsTable } from "./MetricsTable";
+import { OutlineView } from "./OutlineView";
+import { QueryBox } from "./QueryBox";
+import { RELATION_LABELS, RelationPicker } from "./RelationPicker";
+import { RoutesPanel } from "./RoutesPanel";
+import { StudyPlanPanel } from "./StudyPlanPanel";
+import { SubjectPanel } from "./SubjectPanel";
+import { SubjectSearch } from "./SubjectSearch";
+import type { DirectedEdge, EdgeKind, Node } from "./types";
+
+/**
+ * Reads a depth control, where 0 stands for no limit.
+ */
+const maxDepth = (depth: number) => (depth > 0 ? depth : Infinity);
+
+// The renderer replaces link endpoints with the node objects
 const parseId = (input: number | { id: number }) =>
   typeof input === "number" ? input : input.id;
 
-interface Node {
-  id: number;
-  label: string | null;
-  url: string | null;
-  course: string | null;
-}
+const edgeKey = (source: number, target: number) => `${source}->${target}`;
 
-interface Link {
-  source: number;
-  target: number;
-}
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/**
+ * Returns the name of a subject, escaped for a tooltip.
+ */
+const htmlName = (id: number, graph: Graph) => {
+  const node = graph.node(id);
+  return escapeHtml(node ? subjectName(node) : id.toString());
+};
+
+/**
+ * Returns the hover tooltip of a subject, listing its relation to the
+ * subject in view, the implied links hidden from it and its metrics.
+ */
+const tooltip = (
+  node: Node,
+  values: SubjectMetrics | undefined,
+  relation: Relation | undefined,
+  hidden: ImpliedLink[],
+  graph: Graph
+) =>
+  [
+    `<b>${escapeHtml(node.label ?? node.id.toString())}</b>`,
+    ...(relation ? [`Relation: ${RELATION_LABELS[relation]}`] : []),
+    ...hidden.map(({ edge, via }) => {
+      const target = htmlName(edge.target, graph);
+      return `Requires ${target}, implied via ${htmlName(via, graph)}`;
+    }),
+    ...(Object.keys(METRICS) as Metric[]).map(
+      (metric) => `${METRICS[metric]}: ${values?.[metric] ?? "-"}`
+    ),
+  ].join("<br>");
+
+// Leva select options for the views, the renderers and the outline
+const VIEWS = { ...RENDERERS, Outline: "outline" };
+
+// Leva select options for the metrics, by label
+const METRIC_OPTIONS = Object.fromEntries(
+  (Object.keys(METRICS) as Metric[]).map((metric) => [METRICS[metric], metric])
+);
+
+/**
+ * Returns a colour from blue for the lowest to red for the highest value.
+ */
+const metricColor = (value: number, max: number) =>
+  `hsl(${240 - 240 * (max > 0 ? value / max : 0)}, 80%, 55%)`;
+
+const CYCLE_COLOR = "#ff1744";
+const ROUTE_COLOR = "#00e5ff";
+
+// Horizontal distance between the semester columns of a study plan
+const SEMESTER_SPACING = 120;
+
+const EDGE_COLORS: Record<EdgeKind, string> = {
+  prerequisite: "#ffffff",
+  alternative: "#4fc3f7",
+  corequisite: "#ffd54f",
+  antirequisite: "#e57373",
+};
+
+// Colours of the focus subjects, in order
+const FOCUS_COLORS = [
+  "#ef5350",
+  "#42a5f5",
+  "#66bb6a",
+  "#ab47bc",
+  "#ffa726",
+  "#26c6da",
+  "#ec407a",
+  "#d4e157",
+];
+// Subjects in the trees of every focus subject, and of some of them
+const SHARED_COLOR = "#ffd700";
+const OVERLAP_COLOR = "#bdbdbd";
+
+// Colours of the relations to the subject in view, closest first
+const RELATION_COLORS: Record<Relation, string> = {
+  self: "#ffffff",
+  children: "#ef5350",
+  parents: "#42a5f5",
+  siblings: "#ffa726",
+  descendants: "#f48fb1",
+  ancestors: "#90caf9",
+  cousins: "#d4e157",
+  related: "#b39ddb",
+  tree: "#80cbc4",
+  web: "#a1887f",
+  isolated: "#757575",
+};
+
+const DIFF_COLORS: Record<ChangeStatus, string> = {
+  added: "#66bb6a",
+  removed: "#ef5350",
+  changed: "#ffb300",
+  affected: "#ffe082",
+  unchanged: "#616161",
+};
+
+const STATUS_COLORS: Record<SubjectStatus, string> = {
+  completed: "#66bb6a",
+  excluded: "#8d6e63",
+  available: "#ffca28",
+  locked: "#78909c",
+};
+
+const EDGE_LABELS: Record<EdgeKind, string> = {
+  prerequisite: "Prerequisite",
+  alternative: "One of (or)",
+  corequisite: "Corequisite",
+  antirequisite: "Antirequisite",
+};
 
 // maze();
 
 function App() {
+  const { dataset, comparison, stopComparing } = useDataset();
+  const {
+    data: graphData,
+    graph,
+    issues: dataIssues,
+    cycles: requisiteCycles,
+    implied: impliedLinks,
+    searchIndex,
+    metrics,
+    courses: allCourses,
+    courseColors: colorsByCourse,
+  } = dataset;
   const { height, width } = useWindowSize();
-  const [querySubjectId, setQuerySubjectId] = useSearchParamsStateNumber(
+  const [subjectId, setSubjectId] = useSearchParamsStateNumber(
     "subjectId",
     48024
   );
-  const [queryEndSubjectId, setQueryEndSubjectId] = useSearchParamsStateNumber(
+  const [endSubjectId, setEndSubjectId] = useSearchParamsStateNumber(
     "endSubjectId",
     0
   );
+  // A query replacing the tree around the subject, see `parseExpression`
+  const [query, setQuery] = useSearchParamsState("q", "");
+  const [queryRenderer, setQueryRenderer] = useSearchParamsState(
+    "renderer",
+    "3d"
+  );
   const [queryShowLabels, setQueryShowLabels] = useSearchParamsStateBoolean(
     "showLabels",
     true
@@ -49,41 +225,108 @@ function App() {
     "undirected",
     false
   );
-  const [queryShowAncestors, setQueryShowAncestors] =
-    useSearchParamsStateBoolean("showAncestors", true);
-  const [queryShowDescendants, setQueryShowDescendants] =
-    useSearchParamsStateBoolean("showDescendants", true);
-  const [queryShowSelf, setQueryShowSelf] = useSearchParamsStateBoolean(
-    "showSelf",
+  const [relationValues, setRelationValues] = useSearchParamsStateArray(
+    "relations",
+    ["descendants", "ancestors", "self"]
+  );
+  const [queryMinimal, setQueryMinimal] = useSearchParamsStateBoolean(
+    "minimal",
+    false
+  );
+  const [queryPlan, setQueryPlan] = useSearchParamsStateBoolean("plan", false);
+  const [queryMaxLoad, setQueryMaxLoad] = useSearchParamsStateNumber(
+    "maxLoad",
+    4
+  );
+  const [focus, setFocus] = useSearchParamsStateArrayNumber("focus", []);
+  const [queryFocusMode, setQueryFocusMode] = useSearchParamsState(
+    "focusMode",
+    "union"
+  );
+  const [completed, setCompleted] = useSearchParamsStateArrayNumber(
+    "completed",
+    []
+  );
+  const [queryProgress, setQueryProgress] = useSearchParamsStateBoolean(
+    "progress",
+    false
+  );
+  const [queryShowCycles, setQueryShowCycles] = useSearchParamsStateBoolean(
+    "showCycles",
+    false
+  );
+  const [queryWeight, setQueryWeight] = useSearchParamsState("weight", "hops");
+  const [queryRoutes, setQueryRoutes] = useSearchParamsStateNumber("routes", 3);
+  const [courseValues, setCourseValues] = useSearchParamsStateArray(
+    "courses",
+    []
+  );
+  const [queryCrossCourse, setQueryCrossCourse] = useSearchParamsStateBoolean(
+    "crossCourse",
+    false
+  );
+  const [queryHideImplied, setQueryHideImplied] = useSearchParamsStateBoolean(
+    "hideImplied",
+    false
+  );
+  const [queryCourseSummary, setQueryCourseSummary] =
+    useSearchParamsStateBoolean("courseSummary", false);
+  const [queryLegend, setQueryLegend] = useSearchParamsStateBoolean(
+    "legend",
     true
   );
-  // const [circleMode, setCircleMode] = useSearchParamsStateBoolean(
-  //   "circleMode",
-  //   false
-  // );
+  const [queryColorBy, setQueryColorBy] = useSearchParamsState(
+    "colorBy",
+    "course"
+  );
+  const [querySizeBy, setQuerySizeBy] = useSearchParamsState("sizeBy", "none");
+  const [queryMetricsTable, setQueryMetricsTable] = useSearchParamsStateBoolean(
+    "metricsTable",
+    false
+  );
+  const [queryGateways, setQueryGateways] = useSearchParamsStateBoolean(
+    "gateways",
+    false
+  );
+  const [queryAncestorDepth, setQueryAncestorDepth] =
+    useSearchParamsStateNumber("ancestorDepth", 0);
+  const [queryDescendantDepth, setQueryDescendantDepth] =
+    useSearchParamsStateNumber("descendantDepth", 0);
+  const [queryRings, setQueryRings] = useSearchParamsStateBoolean(
+    "rings",
+    false
+  );
 
   const {
-    subjectId,
-    endSubjectId,
+    renderer,
     showLabels,
     undirected: undirectedGraph,
-    descendants: showDescendants,
-    ancestors: showAncestors,
-    self: showSelf,
+    minimal,
+    ancestorDepth,
+    descendantDepth,
+    rings,
+    plan: showPlan,
+    maxLoad,
+    progress,
+    showCycles,
+    weight,
+    routeCount,
+    focusMode,
+    crossCourse,
+    hideImplied,
+    showCourseSummary,
+    legend,
+    colorBy,
+    sizeBy,
+    metricsTable,
+    gateways,
   } = useControls(
     {
-      subjectId: {
-        step: 1,
-        value: querySubjectId,
-        onChange: setQuerySubjectId,
-        label: "Subject ID",
-        transient: false,
-      },
-      endSubjectId: {
-        step: 1,
-        value: queryEndSubjectId,
-        onChange: setQueryEndSubjectId,
-        label: "End Subject ID",
+      renderer: {
+        value: queryRenderer,
+        onChange: setQueryRenderer,
+        options: VIEWS,
+        label: "Renderer",
         transient: false,
       },
       showLabels: {
@@ -98,158 +341,827 @@ function App() {
         label: "Undirected",
         transient: false,
       },
-      descendants: {
-        value: queryShowDescendants,
-        onChange: setQueryShowDescendants,
-        label: "Show Descendants",
+      minimal: {
+        value: queryMinimal,
+        onChange: setQueryMinimal,
+        label: "Minimum Prerequisites",
+        transient: false,
+      },
+      ancestorDepth: {
+        value: queryAncestorDepth,
+        onChange: setQueryAncestorDepth,
+        min: 0,
+        max: 10,
+        step: 1,
+        label: "Ancestor Depth (0 = all)",
+        transient: false,
+      },
+      descendantDepth: {
+        value: queryDescendantDepth,
+        onChange: setQueryDescendantDepth,
+        min: 0,
+        max: 10,
+        step: 1,
+        label: "Descendant Depth (0 = all)",
+        transient: false,
+      },
+      rings: {
+        value: queryRings,
+        onChange: setQueryRings,
+        label: "Hop Rings",
         transient: false,
       },
-      ancestors: {
-        value: queryShowAncestors,
-        onChange: setQueryShowAncestors,
-        label: "Show Ancestors",
+      plan: {
+        value: queryPlan,
+        onChange: setQueryPlan,
+        label: "Study Plan",
+        transient: false,
+      },
+      maxLoad: {
+        value: queryMaxLoad,
+        onChange: setQueryMaxLoad,
+        min: 1,
+        max: 8,
+        step: 1,
+        label: "Subjects per Semester",
         transient: false,
       },
-      self: {
-        value: queryShowSelf,
-        onChange: setQueryShowSelf,
-        label: "Show Self",
+      progress: {
+        value: queryProgress,
+        onChange: setQueryProgress,
+        label: "Track Completed",
+        transient: false,
+      },
+      showCycles: {
+        value: queryShowCycles,
+        onChange: setQueryShowCycles,
+        label: "Show Cycles",
+        transient: false,
+      },
+      weight: {
+        value: queryWeight,
+        onChange: setQueryWeight,
+        options: { Hops: "hops", "Credit Points": "creditPoints" },
+        label: "Route Weight",
+        transient: false,
+      },
+      routeCount: {
+        value: queryRoutes,
+        onChange: setQueryRoutes,
+        min: 1,
+        max: 10,
+        step: 1,
+        label: "Alternative Routes",
+        transient: false,
+      },
+      focusMode: {
+        value: queryFocusMode,
+        onChange: setQueryFocusMode,
+        options: {
+          Union: "union",
+          Intersection: "intersection",
+          "Symmetric Difference": "symmetricDifference",
+        },
+        label: "Combine Focus",
+        transient: false,
+      },
+      crossCourse: {
+        value: queryCrossCourse,
+        onChange: setQueryCrossCourse,
+        label: "Cross-Course Links Only",
+        transient: false,
+      },
+      hideImplied: {
+        value: queryHideImplied,
+        onChange: setQueryHideImplied,
+        label: "Hide Implied Links",
+        transient: false,
+      },
+      showCourseSummary: {
+        value: queryCourseSummary,
+        onChange: setQueryCourseSummary,
+        label: "Course Summary",
+        transient: false,
+      },
+      legend: {
+        value: queryLegend,
+        onChange: setQueryLegend,
+        label: "Course Legend",
+        transient: false,
+      },
+      colorBy: {
+        value: queryColorBy,
+        onChange: setQueryColorBy,
+        options: {
+          Course: "course",
+          Relation: "relation",
+          ...METRIC_OPTIONS,
+        },
+        label: "Color By",
+        transient: false,
+      },
+      sizeBy: {
+        value: querySizeBy,
+        onChange: setQuerySizeBy,
+        options: { None: "none", ...METRIC_OPTIONS },
+        label: "Size By",
+        transient: false,
+      },
+      metricsTable: {
+        value: queryMetricsTable,
+        onChange: setQueryMetricsTable,
+        label: "Metrics Table",
+        transient: false,
+      },
+      gateways: {
+        value: queryGateways,
+        onChange: setQueryGateways,
+        label: "Gateway Subjects",
         transient: false,
       },
     },
     [
-      querySubjectId,
-      queryEndSubjectId,
+      queryRenderer,
       queryShowLabels,
       queryUndirected,
-      queryShowAncestors,
-      queryShowDescendants,
-      queryShowSelf,
+      queryMinimal,
+      queryAncestorDepth,
+      queryDescendantDepth,
+      queryRings,
+      queryPlan,
+      queryMaxLoad,
+      queryProgress,
+      queryShowCycles,
+      queryWeight,
+      queryRoutes,
+      queryFocusMode,
+      queryCrossCourse,
+      queryHideImplied,
+      queryCourseSummary,
+      queryLegend,
+      queryColorBy,
+      querySizeBy,
+      queryMetricsTable,
+      queryGateways,
     ]
   );
 
-  // give edges connecting to the given populated nodes
-  const edgesFromNodes = (nodes: number[]) => {
-    const populatedNodes = nodes.map((node) =>
-      graphData.nodes.find((n) => n.id === node)
+  const completedSet = useMemo(() => new Set(completed), [completed]);
+  const unlocked = useMemo(
+    () => (progress ? frontier(completedSet, graph) : []),
+    [progress, completedSet, graph]
+  );
+
+  const toggleCompleted = (id: number) =>
+    setCompleted(
+      completedSet.has(id)
+        ? completed.filter((other) => other !== id)
+        : [...completed, id]
     );
-    const populatedLinks = graphData.links.filter((link) => {
-      const source = populatedNodes.find(
-        (node) => node?.id === parseId(link.source)
-      );
-      const target = populatedNodes.find(
-        (node) => node?.id === parseId(link.target)
-      );
-      return source && target;
-    });
-    return populatedLinks;
-  };
 
-  const getData = useCallback(() => {
-    if (subjectId === 0) {
-      return graphData;
+  const centrality = useCentrality(gateways ? graphData : undefined);
+
+  const queries = useQueryService(graphData);
+
+  const routeQuery = useQuery(
+    queries,
+    "kShortestPaths",
+    subjectId !== 0 && endSubjectId !== 0
+      ? [subjectId, endSubjectId, routeCount, weight as EdgeWeightName]
+      : undefined,
+    undirectedGraph
+  );
+  const routes = useMemo(() => routeQuery.result ?? [], [routeQuery.result]);
+  const betweenQuery = useQuery(
+    queries,
+    "between",
+    subjectId !== 0 && endSubjectId !== 0
+      ? [subjectId, endSubjectId]
+      : undefined,
+    undirectedGraph
+  );
+  // The subject shown in the detail panel, following the subject in view
+  // once it changes, so the panel stays open when re-centering from it
+  const [selectedId, setSelectedId] = useState<number>();
+  const centred = useRef(subjectId);
+  useEffect(() => {
+    if (subjectId !== centred.current) {
+      centred.current = subjectId;
+      setSelectedId(subjectId !== 0 ? subjectId : undefined);
     }
+  }, [subjectId]);
 
-    let nodes: number[] = [];
-    let initialEdges: { source: number; target: number }[] = [];
+  const [routeIndex, setRouteIndex] = useState(0);
+  useEffect(() => setRouteIndex(0), [routes]);
 
-    if (undirectedGraph) {
-      initialEdges = undirected(graphData.links);
-    } else {
-      initialEdges = graphData.links;
+  const routeEdges = useMemo(() => {
+    const path = routes[routeIndex]?.path ?? [];
+    return new Set(path.slice(1).map((id, i) => edgeKey(path[i], id)));
+  }, [routes, routeIndex]);
+  const isOnRoute = (link: { source: number; target: number }) =>
+    routeEdges.has(edgeKey(parseId(link.source), parseId(link.target)));
+
+  // Comparing with an earlier version shows both versions in one graph
+  const [changesOnly, setChangesOnly] = useState(true);
+  const unionGraph = useMemo(
+    () => comparison && new Graph(comparison.union.data),
+    [comparison]
+  );
+  const diffStatus = (link: DirectedEdge) =>
+    comparison
+      ? linkStatus(comparison.union, {
+          ...link,
+          source: parseId(link.source),
+          target: parseId(link.target),
+        })
+      : "unchanged";
+
+  const focusIds = useMemo(
+    () => Array.from(new Set([subjectId, ...focus])).filter((id) => id !== 0),
+    [subjectId, focus]
+  );
+  // Every subject in focus is a target of the plan
+  const plan = useMemo(
+    () =>
+      showPlan && focusIds.length > 0
+        ? studyPlan(focusIds, [...completedSet], maxLoad, graph)
+        : undefined,
+    [showPlan, focusIds, completedSet, maxLoad, graph]
+  );
+  const multiFocus = focusIds.length > 1 && endSubjectId === 0 && !plan;
+
+  const relations = useMemo(
+    () =>
+      relationValues.filter((value): value is Relation =>
+        RELATIONS.includes(value as Relation)
+      ),
+    [relationValues]
+  );
+
+  const expressionQuery = useQuery(
+    queries,
+    "expression",
+    query ? [query] : undefined,
+    false
+  );
+
+  // The subjects shown around each subject in view
+  const treeIds =
+    showCycles || query
+      ? []
+      : multiFocus
+      ? focusIds
+      : subjectId !== 0 && endSubjectId === 0 && !plan
+      ? [subjectId]
+      : [];
+  const treeQuery = useQuery(
+    queries,
+    "subjectTrees",
+    treeIds.length > 0
+      ? [
+          treeIds,
+          {
+            relations,
+            minimal,
+            ancestorDepth: maxDepth(ancestorDepth),
+            descendantDepth: maxDepth(descendantDepth),
+          },
+        ]
+      : undefined,
+    undirectedGraph
+  );
+  const trees = useMemo(
+    () => treeQuery.result?.map((tree) => Array.from(tree.keys())),
+    [treeQuery.result]
+  );
+  // The relation of each subject to the subject, when showing a single tree
+  const singleTree =
+    !multiFocus && treeIds.length === 1 ? treeQuery.result?.[0] : undefined;
+  const hopRings = useMemo(() => {
+    if (!rings || !singleTree) {
+      return undefined;
     }
+    const distances = Array.from(
+      singleTree,
+      ([id, { distance }]) => [id, distance] as const
+    );
+    // Subjects out of reach, such as isolated ones, share the ring outside
+    const outside =
+      Math.max(0, ...distances.map(([, d]) => d).filter(Number.isFinite)) + 1;
+    return new Map(
+      distances.map(([id, d]) => [id, Number.isFinite(d) ? d : outside])
+    );
+  }, [rings, singleTree]);
 
-    if (endSubjectId !== 0) {
-      nodes.push(
-        ...dijkstraShortestPath(subjectId, endSubjectId, initialEdges)
-      );
-    } else {
-      if (showDescendants) {
-        nodes.push(...descendants(subjectId, initialEdges));
-      }
+  const focusMembership = useMemo(
+    () => (multiFocus && trees ? membership(trees) : new Map()),
+    [multiFocus, trees]
+  );
+  const sharedQuery = useQuery(
+    queries,
+    "subjectTrees",
+    focusIds.length > 1
+      ? [
+          focusIds,
+          {
+            relations: ["descendants"],
+            minimal: false,
+            descendantDepth: Infinity,
+            ancestorDepth: Infinity,
+          },
+        ]
+      : undefined
+  );
+  const sharedPrerequisites = useMemo(
+    () =>
+      sharedQuery.result
+        ? combine(
+            sharedQuery.result.map((tree) => Array.from(tree.keys())),
+            "intersection"
+          )
+        : [],
+    [sharedQuery.result]
+  );
+
+  const running = [
+    routeQuery,
+    betweenQuery,
+    treeQuery,
+    sharedQuery,
+    expressionQuery,
+  ];
+  const searching = running.some(({ loading }) => loading);
+  const searchError = running.find(({ error }) => error)?.error;
 
-      if (showAncestors) {
-        nodes.push(...ancestors(subjectId, initialEdges));
+  const courseRules = useMemo(
+    () => parseCourseRules(courseValues),
+    [courseValues]
+  );
+
+  const getSubjects = useCallback(() => {
+    if (comparison && unionGraph) {
+      if (!changesOnly) {
+        return unionGraph.toData();
+      }
+      // The changed subjects and the ends of the changed links
+      const ids = new Set(comparison.union.nodes.keys());
+      for (const link of comparison.union.data.links) {
+        if (linkStatus(comparison.union, link) !== "unchanged") {
+          ids.add(link.source);
+          ids.add(link.target);
+        }
       }
+      return unionGraph.subgraph(ids);
+    }
+
+    if (query) {
+      return graph.subgraph(expressionQuery.result ?? []);
+    }
+
+    if (showCycles) {
+      // Only the requisite edges within a component lie on a cycle, edges
+      // from one component to another never lead back
+      const component = new Map<number, number>();
+      requisiteCycles.forEach((members, i) =>
+        members.forEach((id) => component.set(id, i))
+      );
+      const { nodes, links } = graph.subgraph(component.keys());
+      return {
+        nodes,
+        links: links.filter(
+          (link) =>
+            link.kind !== "antirequisite" &&
+            component.get(link.source) === component.get(link.target)
+        ),
+      };
+    }
+
+    if (multiFocus) {
+      return graph.subgraph([
+        ...combine(trees ?? [], focusMode as SetOperation),
+        ...focusIds,
+      ]);
+    }
+
+    if (subjectId === 0) {
+      return graph.toData();
+    }
+
+    if (plan) {
+      // Pin each subject to the column of its semester
+      const columns = new Map<number, number>();
+      plan.semesters.forEach((semester, i) =>
+        semester.forEach((id) => columns.set(id, i))
+      );
+      const offset = (plan.semesters.length - 1) / 2;
+      const { nodes, links } = graph.subgraph(columns.keys());
+      return {
+        nodes: nodes.map((node) => ({
+          ...node,
+          fx: (columns.get(node.id)! - offset) * SEMESTER_SPACING,
+        })),
+        links,
+      };
+    }
+
+    const nodes = new Set<number>();
 
-      if (showSelf) {
-        nodes.push(subjectId);
+    const add = (ids: Iterable<number>) => {
+      for (const id of ids) {
+        nodes.add(id);
       }
+    };
+
+    if (endSubjectId !== 0) {
+      // Everything between the two subjects, with the routes on top
+      add(betweenQuery.result ?? []);
+      routes.forEach(({ path }) => add(path));
+    } else {
+      add(trees?.[0] ?? []);
     }
 
-    // const nodes = relatedAndSelf(subjectId, graphData.links);
-    const links = edgesFromNodes(nodes);
-    const populatedNodes = graphData.nodes.filter((node) =>
-      nodes.includes(node.id)
-    );
-    return { nodes: populatedNodes, links };
+    return graph.subgraph(nodes);
   }, [
-    undirectedGraph,
-    showDescendants,
-    showAncestors,
-    showSelf,
+    comparison,
+    unionGraph,
+    changesOnly,
+    query,
+    expressionQuery.result,
+    graph,
+    requisiteCycles,
+    showCycles,
+    multiFocus,
+    focusIds,
+    focusMode,
+    plan,
+    routes,
+    betweenQuery.result,
+    trees,
     subjectId,
     endSubjectId,
   ]);
 
+  // The prerequisite each implied link follows from, by link and by subject
+  const implied = useMemo(() => {
+    const via = new Map<string, number>();
+    const bySource = new Map<number, ImpliedLink[]>();
+    for (const link of impliedLinks) {
+      via.set(edgeKey(link.edge.source, link.edge.target), link.via);
+      bySource.set(link.edge.source, [
+        ...(bySource.get(link.edge.source) ?? []),
+        link,
+      ]);
+    }
+    return { via, bySource };
+  }, [impliedLinks]);
+  const impliedVia = (link: DirectedEdge) =>
+    (link.kind ?? "prerequisite") === "prerequisite"
+      ? implied.via.get(edgeKey(parseId(link.source), parseId(link.target)))
+      : undefined;
+
+  const impliedLabel = (link: DirectedEdge) => {
+    const label = EDGE_LABELS[link.kind ?? "prerequisite"];
+    const via = impliedVia(link);
+    return via === undefined
+      ? label
+      : `${label}, implied via ${htmlName(via, graph)}`;
+  };
+
+  const getData = useCallback(() => {
+    const filtered = filterCourses(getSubjects(), courseRules);
+    const shown = crossCourse ? crossCourseLinks(filtered) : filtered;
+    if (!hideImplied) {
+      return shown;
+    }
+    return {
+      nodes: shown.nodes,
+      links: shown.links.filter((link) => impliedVia(link) === undefined),
+    };
+  }, [getSubjects, courseRules, crossCourse, hideImplied, implied]);
+
   const data = useMemo(getData, [
     getData,
+    comparison,
+    changesOnly,
+    query,
+    expressionQuery.result,
+    courseRules,
+    crossCourse,
+    hideImplied,
+    showCycles,
+    multiFocus,
+    focusIds,
+    focusMode,
+    plan,
     undirectedGraph,
-    showDescendants,
-    showAncestors,
-    showSelf,
+    relations,
+    minimal,
+    ancestorDepth,
+    descendantDepth,
     subjectId,
     endSubjectId,
   ]);
 
+  const summary = useMemo(
+    () => (showCourseSummary ? courseSummary(data) : undefined),
+    [showCourseSummary, data]
+  );
+  const courseCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    data.nodes.forEach((node) =>
+      counts.set(courseOf(node), (counts.get(courseOf(node)) ?? 0) + 1)
+    );
+    return counts;
+  }, [data]);
+  const relationCounts = useMemo(() => {
+    const counts = new Map<Relation, number>();
+    data.nodes.forEach((node) => {
+      const relation = singleTree?.get(node.id)?.relation;
+      if (relation) {
+        counts.set(relation, (counts.get(relation) ?? 0) + 1);
+      }
+    });
+    return counts;
+  }, [data, singleTree]);
+
+  // Wraps the renderer, to take snapshots of its canvas
+  const viewRef = useRef<HTMLDivElement>(null);
+
+  const graphRenderer = Object.values(RENDERERS).includes(renderer as Renderer)
+    ? (renderer as Renderer)
+    : "3d";
+  const webgl = useMemo(webglAvailable, []);
+  // The 3D renderer needs WebGL, show the outline instead without it
+  const fallback = graphRenderer === "3d" && !webgl && renderer !== "outline";
+  const showOutline = renderer === "outline" || fallback;
+
+  const colorMetric = colorBy in METRICS ? (colorBy as Metric) : undefined;
+  const sizeMetric = sizeBy in METRICS ? (sizeBy as Metric) : undefined;
+  // Scale colours and sizes to the subjects on screen
+  const maxima = useMemo(() => {
+    const max = (metric?: Metric) =>
+      metric
+        ? Math.max(
+            0,
+            ...data.nodes.map((node) => metrics.get(node.id)?.[metric] ?? 0)
+          )
+        : 0;
+    return { color: max(colorMetric), size: max(sizeMetric) };
+  }, [data, metrics, colorMetric, sizeMetric]);
+
+  /**
+   * Returns the colour of the focus subjects whose trees hold a subject.
+   */
+  const focusColor = (id: number) => {
+    const own = focusIds.indexOf(id);
+    if (own !== -1) {
+      return FOCUS_COLORS[own % FOCUS_COLORS.length];
+    }
+    const indices: number[] = focusMembership.get(id) ?? [];
+    return indices.length === focusIds.length
+      ? SHARED_COLOR
+      : indices.length === 1
+      ? FOCUS_COLORS[indices[0] % FOCUS_COLORS.length]
+      : OVERLAP_COLOR;
+  };
+
+  const colorOf = (node: Node) =>
+    summary
+      ? colorsByCourse.get(courseOf(node))
+      : comparison
+      ? DIFF_COLORS[comparison.union.nodes.get(node.id) ?? "unchanged"]
+      : progress
+      ? STATUS_COLORS[subjectStatus(node.id, completedSet, graph)]
+      : multiFocus
+      ? focusColor(node.id)
+      : colorMetric
+      ? metricColor(metrics.get(node.id)?.[colorMetric] ?? 0, maxima.color)
+      : colorBy === "relation" && singleTree
+      ? RELATION_COLORS[singleTree.get(node.id)?.relation ?? "self"]
+      : colorsByCourse.get(courseOf(node));
+  // Relative size of a subject, from 1 to 2
+  const sizeOf = (node: Node) =>
+    summary
+      ? 1 + (node as CourseNode).subjects / data.nodes.length
+      : sizeMetric && maxima.size > 0
+      ? 1 + (metrics.get(node.id)?.[sizeMetric] ?? 0) / maxima.size
+      : 1;
+
   return (
-    <ForceGraph3D
-      graphData={data}
-      width={width}
-      height={height}
-      linkDirectionalArrowLength={3.5}
-      linkDirectionalArrowRelPos={1}
-      linkCurvature={0.25}
-      showNavInfo={false}
-      // @ts-ignore
-      nodeLabel={(node) => node.label ?? node.id}
-      nodeAutoColorBy="course"
-      enableNodeDrag={false}
-      nodeThreeObject={
-        !showLabels
-          ? undefined
-          : (node) => {
-              if (node.id === subjectId) {
-                node.fx = 0;
-                node.fy = 0;
-                node.fz = 0;
+    <>
+      <div className="overlay">
+        <DatasetPicker />
+        {searching && (
+          <p className="spinner" role="status">
+            Searching…
+          </p>
+        )}
+        {searchError && <p role="alert">{searchError}</p>}
+        <SubjectSearch
+          label="Subject"
+          index={searchIndex}
+          selected={graph.node(subjectId)}
+          onSelect={setSubjectId}
+          onClear={() => setSubjectId(0)}
+        />
+        <SubjectSearch
+          label="End subject"
+          index={searchIndex}
+          selected={graph.node(endSubjectId)}
+          onSelect={setEndSubjectId}
+          onClear={() => setEndSubjectId(0)}
+        />
+        <QueryBox
+          value={query}
+          count={expressionQuery.result?.length}
+          onChange={setQuery}
+        />
+        {treeIds.length > 0 && (
+          <RelationPicker
+            relations={relations}
+            colors={RELATION_COLORS}
+            counts={singleTree && relationCounts}
+            onChange={setRelationValues}
+          />
+        )}
+        <FocusPanel
+          graph={graph}
+          index={searchIndex}
+          current={subjectId}
+          focus={focusIds}
+          colors={focusIds.map((_, i) => FOCUS_COLORS[i % FOCUS_COLORS.length])}
+          shared={sharedPrerequisites}
+          onAdd={(id) => setFocus(Array.from(new Set([...focus, id])))}
+          onRemove={(id) => setFocus(focus.filter((other) => other !== id))}
+          onSelect={setSelectedId}
+        />
+        {selectedId !== undefined && (
+          <SubjectPanel
+            graph={graph}
+            id={selectedId}
+            onSelect={setSubjectId}
+            onClose={() => setSelectedId(undefined)}
+          />
+        )}
+        {plan && <StudyPlanPanel plan={plan} graph={graph} />}
+        {endSubjectId !== 0 && !showCycles && (
+          <RoutesPanel
+            graph={graph}
+            routes={routes}
+            selected={routeIndex}
+            onSelect={setRouteIndex}
+          />
+        )}
+        {showCycles && (
+          <CyclesPanel
+            graph={graph}
+            cycles={requisiteCycles}
+            onSelect={setSubjectId}
+          />
+        )}
+        {progress && (
+          <CompletedPanel
+            graph={graph}
+            completed={completed}
+            unlocked={unlocked}
+            onChange={setCompleted}
+            onSelect={setSubjectId}
+          />
+        )}
+        {comparison && (
+          <DiffPanel
+            comparison={comparison}
+            colors={DIFF_COLORS}
+            changesOnly={changesOnly}
+            onChangesOnly={setChangesOnly}
+            onClose={stopComparing}
+          />
+        )}
+        <ExportMenu
+          data={summary ?? data}
+          name={
+            summary
+              ? "courses"
+              : subjectId !== 0
+              ? `subjects-${subjectId}`
+              : "subjects"
+          }
+          canvas={() => viewRef.current?.querySelector("canvas")}
+        />
+        {legend && (
+          <CourseLegend
+            courses={allCourses}
+            colors={colorsByCourse}
+            counts={courseCounts}
+            rules={courseRules}
+            onChange={(rules) => setCourseValues(formatCourseRules(rules))}
+          />
+        )}
+      </div>
+      {(metricsTable || gateways) && (
+        <div className="table-overlay">
+          {metricsTable && (
+            <MetricsTable
+              graph={graph}
+              rows={data.nodes.flatMap((node) => metrics.get(node.id) ?? [])}
+              onSelect={setSubjectId}
+            />
+          )}
+          {gateways && (
+            <GatewayTable
+              graph={graph}
+              scores={centrality.scores}
+              error={centrality.error}
+              onSelect={setSubjectId}
+            />
+          )}
+        </div>
+      )}
+      <DataWarnings issues={dataIssues} />
+      <div ref={viewRef}>
+        {showOutline ? (
+          <OutlineView
+            data={summary ?? data}
+            anchor={subjectId}
+            selected={selectedId}
+            notice={
+              fallback
+                ? "This browser cannot draw the 3D graph, pick a 2D renderer to see it drawn."
+                : undefined
+            }
+            nodeColor={colorOf}
+            onSelect={(id) => {
+              // Course nodes are not subjects
+              if (!summary) {
+                setSelectedId(id);
               }
-
-              const sprite = new SpriteText(
-                // @ts-ignore
-                node.label
-                  ? // @ts-ignore
-                    `${node.id?.toString() ?? ""}: ${node.label}`
-                  : node.id?.toString()
-              );
-              sprite.textHeight = 8;
-              sprite.fontWeight = node.id === subjectId ? "bold" : "normal";
-              // @ts-ignore
-              sprite.color = node.color;
-              sprite.backgroundColor = "rgba(0, 0, 0, 0.5)";
-              return sprite;
+            }}
+          />
+        ) : (
+          <GraphView
+            renderer={graphRenderer}
+            data={summary ?? data}
+            width={width}
+            height={height}
+            anchor={subjectId}
+            rings={hopRings}
+            showLabels={showLabels}
+            nodeLabel={
+              summary
+                ? (node) =>
+                    `<b>${node.label}</b><br>${
+                      (node as CourseNode).subjects
+                    } subjects`
+                : (node) =>
+                    tooltip(
+                      node,
+                      metrics.get(node.id),
+                      singleTree?.get(node.id)?.relation,
+                      hideImplied ? implied.bySource.get(node.id) ?? [] : [],
+                      graph
+                    )
             }
-      }
-      onNodeClick={(node, e) => {
-        if (e.ctrlKey) {
-          // @ts-ignore
-          setSubjectId(node.id);
-        } else {
-          // @ts-ignore
-          window.open(node.url, "_blank");
-        }
-      }}
-    />
+            nodeColor={colorOf}
+            nodeSize={sizeOf}
+            linkColor={(link) =>
+              comparison
+                ? DIFF_COLORS[diffStatus(link)]
+                : showCycles
+                ? CYCLE_COLOR
+                : isOnRoute(link)
+                ? ROUTE_COLOR
+                : EDGE_COLORS[link.kind ?? "prerequisite"]
+            }
+            linkParticles={(link) => (showCycles || isOnRoute(link) ? 4 : 0)}
+            linkWidth={(link) =>
+              summary
+                ? Math.log2((link as CourseLink).count + 1)
+                : isOnRoute(link) ||
+                  (comparison && diffStatus(link) !== "unchanged")
+                ? 1.5
+                : 0
+            }
+            linkLabel={(link) =>
+              summary
+                ? `${(link as CourseLink).count} requisites`
+                : impliedLabel(link)
+            }
+            onNodeClick={(node, e) => {
+              if (summary) {
+                // Course nodes are not subjects
+                return;
+              } else if (e.ctrlKey) {
+                setSubjectId(node.id);
+              } else if (progress) {
+                toggleCompleted(node.id);
+              } else {
+                setSelectedId(node.id);
+              }
+            }}
+          />
+        )}
+      </div>
+    </>
   );
 }
 
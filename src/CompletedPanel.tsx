@@ -0,0 +1,68 @@
+import { useState } from "react";
+import { Graph } from "./graph";
+import { subjectName, parseSubjectList } from "./subjects";
+
+interface CompletedPanelProps {
+  graph: Graph;
+  completed: number[];
+  unlocked: number[];
+  onChange: (completed: number[]) => void;
+  onSelect: (id: number) => void;
+}
+
+/**
+ * Edits the completed subjects and lists the subjects they unlock.
+ */
+export function CompletedPanel({
+  graph,
+  completed,
+  unlocked,
+  onChange,
+  onSelect,
+}: CompletedPanelProps) {
+  const [pasted, setPasted] = useState("");
+
+  return (
+    <section className="panel" aria-label="Completed subjects">
+      <h2>{completed.length} completed</h2>
+      <textarea
+        rows={3}
+        value={pasted}
+        placeholder="Paste subject ids or codes"
+        onChange={(e) => setPasted(e.target.value)}
+      />
+      <div className="panel-actions">
+        <button
+          type="button"
+          onClick={() => {
+            const added = parseSubjectList(pasted, graph.nodes);
+            onChange(Array.from(new Set([...completed, ...added])));
+            setPasted("");
+          }}
+        >
+          Add
+        </button>
+        <button type="button" onClick={() => onChange([])}>
+          Clear
+        </button>
+      </div>
+      <h3>Unlocked next ({unlocked.length})</h3>
+      <ul>
+        {unlocked.map((id) => {
+          const node = graph.node(id);
+          return (
+            <li key={id}>
+              <button
+                type="button"
+                className="link"
+                onClick={() => onSelect(id)}
+              >
+                {node ? subjectName(node) : id}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,72 @@
+import type { CourseRule } from "./courses";
+
+interface CourseLegendProps {
+  courses: string[];
+  colors: Map<string, string>;
+  /** The number of subjects shown in each course. */
+  counts: Map<string, number>;
+  rules: Map<string, CourseRule>;
+  onChange: (rules: Map<string, CourseRule>) => void;
+}
+
+/**
+ * Lists the colour of every course, with buttons to show only some courses
+ * or hide them.
+ */
+export function CourseLegend({
+  courses,
+  colors,
+  counts,
+  rules,
+  onChange,
+}: CourseLegendProps) {
+  const toggle = (course: string, rule: CourseRule) => {
+    const next = new Map(rules);
+    if (rules.get(course) === rule) {
+      next.delete(course);
+    } else {
+      next.set(course, rule);
+    }
+    onChange(next);
+  };
+
+  return (
+    <section className="panel" aria-label="Courses">
+      <div className="panel-actions">
+        <h2>Courses</h2>
+        {rules.size > 0 && (
+          <button type="button" onClick={() => onChange(new Map())}>
+            Reset
+          </button>
+        )}
+      </div>
+      <ul className="legend">
+        {courses.map((course) => (
+          <li key={course}>
+            <span
+              className="swatch"
+              style={{ backgroundColor: colors.get(course) }}
+            />
+            <span className="legend-name">
+              {course} <small>({counts.get(course) ?? 0})</small>
+            </span>
+            <button
+              type="button"
+              aria-pressed={rules.get(course) === "include"}
+              onClick={() => toggle(course, "include")}
+            >
+              Only
+            </button>
+            <button
+              type="button"
+              aria-pressed={rules.get(course) === "exclude"}
+              onClick={() => toggle(course, "exclude")}
+            >
+              Hide
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
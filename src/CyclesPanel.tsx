@@ -0,0 +1,43 @@
+import { Graph } from "./graph";
+import { subjectName } from "./subjects";
+
+interface CyclesPanelProps {
+  graph: Graph;
+  cycles: number[][];
+  onSelect: (id: number) => void;
+}
+
+/**
+ * Lists the requisite cycles of the dataset, one entry per component.
+ */
+export function CyclesPanel({ graph, cycles, onSelect }: CyclesPanelProps) {
+  return (
+    <section className="panel" aria-label="Requisite cycles">
+      <h2>
+        {cycles.length} requisite cycle{cycles.length === 1 ? "" : "s"}
+      </h2>
+      <ol>
+        {cycles.map((members) => (
+          <li key={members.join(",")}>
+            <ul>
+              {members.map((id) => {
+                const node = graph.node(id);
+                return (
+                  <li key={id}>
+                    <button
+                      type="button"
+                      className="link"
+                      onClick={() => onSelect(id)}
+                    >
+                      {node ? subjectName(node) : id}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
@@ -0,0 +1,50 @@
+import { useState } from "react";
+import { countIssues, describeIssue, WARNING_TYPES } from "./validate";
+import type { Issue, IssueType } from "./validate";
+
+interface DataWarningsProps {
+  issues: Issue[];
+}
+
+// Number of issues listed under each type
+const EXAMPLES = 20;
+
+/**
+ * Lists the problems found in the loaded dataset until dismissed.
+ */
+export function DataWarnings({ issues }: DataWarningsProps) {
+  const [dismissed, setDismissed] = useState(false);
+
+  if (dismissed || issues.length === 0) {
+    return null;
+  }
+
+  const counts = Object.entries(countIssues(issues)) as [IssueType, number][];
+
+  return (
+    <section className="panel data-warnings" role="alert">
+      <h2>Dataset problems</h2>
+      {counts.map(([type, count]) => (
+        <details key={type}>
+          <summary>
+            {WARNING_TYPES.has(type) ? "Warning" : "Error"}: {count} {type}
+          </summary>
+          <ul>
+            {issues
+              .filter((issue) => issue.type === type)
+              .slice(0, EXAMPLES)
+              .map((issue, i) => (
+                <li key={i}>{describeIssue(issue)}</li>
+              ))}
+            {count > EXAMPLES && <li>… and {count - EXAMPLES} more</li>}
+          </ul>
+        </details>
+      ))}
+      <div className="panel-actions">
+        <button type="button" onClick={() => setDismissed(true)}>
+          Dismiss
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,182 @@
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from "react";
+import type { ReactNode } from "react";
+import {
+  buildDataset,
+  BUNDLED_DATASETS,
+  DatasetError,
+  DEFAULT_DATASET,
+  readDatasetFiles,
+} from "./dataset";
+import type { Dataset, LoadProgress } from "./dataset";
+import { diffDatasets, unionGraph } from "./diff";
+import type { Change, UnionGraph } from "./diff";
+import { useSearchParamsState } from "./hooks";
+import { LoadingIndicator } from "./LoadingIndicator";
+import type { GraphData } from "./types";
+
+/**
+ * The dataset in use compared against an earlier version of it.
+ */
+export interface Comparison {
+  /** The names of the files of the earlier version. */
+  name: string;
+  changes: Change[];
+  union: UnionGraph;
+}
+
+interface DatasetState {
+  dataset: Dataset;
+  /** The bundled dataset selected by the `dataset` URL parameter. */
+  selected: string;
+  /** Whether the dataset in use was uploaded for this session. */
+  uploaded: boolean;
+  /** Why the last dataset could not be loaded. */
+  error: string | undefined;
+  /** How far the bundled dataset has downloaded, while it loads. */
+  progress: LoadProgress | undefined;
+  /** The changes since the earlier version being compared against. */
+  comparison: Comparison | undefined;
+  select: (name: string) => void;
+  upload: (files: File[]) => void;
+  /** Compares the dataset in use against an earlier version in files. */
+  compare: (files: File[]) => void;
+  stopComparing: () => void;
+}
+
+const describeError = (reason: unknown) =>
+  reason instanceof DatasetError ? reason.message : String(reason);
+
+const DatasetContext = createContext<DatasetState | undefined>(undefined);
+
+/**
+ * Loads the dataset the app shows, either one of the bundled handbooks or
+ * files supplied by the user, and renders its children once it is ready.
+ */
+export function DatasetProvider({ children }: { children: ReactNode }) {
+  const [selected, setSelected] = useSearchParamsState(
+    "dataset",
+    DEFAULT_DATASET
+  );
+  const [bundled, setBundled] = useState<Dataset>();
+  const [uploaded, setUploaded] = useState<Dataset>();
+  const [error, setError] = useState<string>();
+  const [progress, setProgress] = useState<LoadProgress>();
+
+  useEffect(() => {
+    let cancelled = false;
+    const name = selected in BUNDLED_DATASETS ? selected : DEFAULT_DATASET;
+    if (name !== selected) {
+      setError(`Unknown dataset "${selected}", showing ${name} instead`);
+    }
+    BUNDLED_DATASETS[name]
+      .load({
+        progress: (loading) => !cancelled && setProgress(loading),
+        // Draw the graph while the subject details load
+        structure: (data) =>
+          !cancelled && setBundled(buildDataset(name, data, false)),
+      })
+      .then((data) => {
+        if (!cancelled) {
+          setBundled(buildDataset(name, data));
+        }
+      })
+      .catch((reason) => !cancelled && setError(describeError(reason)))
+      .finally(() => !cancelled && setProgress(undefined));
+    return () => {
+      cancelled = true;
+    };
+  }, [selected]);
+
+  const upload = useCallback(
+    (files: File[]) =>
+      readDatasetFiles(files)
+        .then((data) => {
+          setUploaded(
+            buildDataset(files.map((file) => file.name).join(", "), data)
+          );
+          setError(undefined);
+        })
+        .catch((reason) => setError(describeError(reason))),
+    []
+  );
+
+  const [baseline, setBaseline] = useState<{ name: string; data: GraphData }>();
+  const compare = useCallback(
+    (files: File[]) =>
+      readDatasetFiles(files)
+        .then((data) => {
+          setBaseline({
+            name: files.map((file) => file.name).join(", "),
+            data,
+          });
+          setError(undefined);
+        })
+        .catch((reason) => setError(describeError(reason))),
+    []
+  );
+
+  const dataset = uploaded ?? bundled;
+  const comparison = useMemo(() => {
+    // Subjects without their details would all count as changed
+    if (!baseline || !dataset?.complete) {
+      return undefined;
+    }
+    const changes = diffDatasets(baseline.data, dataset.data);
+    return {
+      name: baseline.name,
+      changes,
+      union: unionGraph(baseline.data, dataset.data, changes),
+    };
+  }, [baseline, dataset]);
+
+  if (dataset === undefined) {
+    return error ? (
+      <p className="loading" role="alert">
+        {error}
+      </p>
+    ) : (
+      <LoadingIndicator progress={progress} />
+    );
+  }
+
+  return (
+    <DatasetContext.Provider
+      value={{
+        dataset,
+        selected,
+        uploaded: uploaded !== undefined,
+        error,
+        progress,
+        comparison,
+        select: (name) => {
+          setUploaded(undefined);
+          setError(undefined);
+          setSelected(name);
+        },
+        upload,
+        compare,
+        stopComparing: () => setBaseline(undefined),
+      }}
+    >
+      {children}
+    </DatasetContext.Provider>
+  );
+}
+
+/**
+ * Returns the dataset in use and the means to replace it.
+ */
+export function useDataset(): DatasetState {
+  const state = useContext(DatasetContext);
+  if (state === undefined) {
+    throw new Error("useDataset must be used inside a DatasetProvider");
+  }
+  return state;
+}
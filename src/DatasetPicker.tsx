@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { useDataset } from "./DatasetContext";
+import { BUNDLED_DATASETS } from "./dataset";
+import { LoadingIndicator } from "./LoadingIndicator";
+
+// The value of the option standing for the uploaded files
+const UPLOADED = "";
+
+/**
+ * Picks the dataset to show: a bundled handbook, or files chosen with the
+ * file picker or dropped anywhere on the page.
+ */
+export function DatasetPicker() {
+  const {
+    dataset,
+    selected,
+    uploaded,
+    error,
+    progress,
+    select,
+    upload,
+    compare,
+  } = useDataset();
+  const [dragging, setDragging] = useState(false);
+
+  useEffect(() => {
+    const over = (event: DragEvent) => {
+      if (event.dataTransfer?.types.includes("Files")) {
+        event.preventDefault();
+        setDragging(true);
+      }
+    };
+    const leave = (event: DragEvent) => {
+      // Leaving the window has no element to enter
+      if (event.relatedTarget === null) {
+        setDragging(false);
+      }
+    };
+    const drop = (event: DragEvent) => {
+      const files = Array.from(event.dataTransfer?.files ?? []);
+      if (files.length > 0) {
+        event.preventDefault();
+        upload(files);
+      }
+      setDragging(false);
+    };
+    window.addEventListener("dragover", over);
+    window.addEventListener("dragleave", leave);
+    window.addEventListener("drop", drop);
+    return () => {
+      window.removeEventListener("dragover", over);
+      window.removeEventListener("dragleave", leave);
+      window.removeEventListener("drop", drop);
+    };
+  }, [upload]);
+
+  return (
+    <section
+      className={`panel dataset-picker${dragging ? " dragging" : ""}`}
+      aria-label="Dataset"
+    >
+      <label>
+        Dataset{" "}
+        <select
+          value={uploaded ? UPLOADED : selected}
+          onChange={(e) => select(e.target.value)}
+        >
+          {uploaded && <option value={UPLOADED}>{dataset.name}</option>}
+          {Object.entries(BUNDLED_DATASETS).map(([name, { label }]) => (
+            <option key={name} value={name}>
+              {label}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        <small>
+          Open a JSON or GraphML file, or a nodes and an edges CSV, or drop them
+          on the page
+        </small>
+        <input
+          type="file"
+          multiple
+          accept=".json,.graphml,.xml,.csv"
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []);
+            if (files.length > 0) {
+              upload(files);
+            }
+            e.target.value = "";
+          }}
+        />
+      </label>
+      <label>
+        <small>Compare with an earlier version of the dataset</small>
+        <input
+          type="file"
+          multiple
+          accept=".json,.graphml,.xml,.csv"
+          onChange={(e) => {
+            const files = Array.from(e.target.files ?? []);
+            if (files.length > 0) {
+              compare(files);
+            }
+            e.target.value = "";
+          }}
+        />
+      </label>
+      {progress && !uploaded && <LoadingIndicator progress={progress} />}
+      {error && <p role="alert">{error}</p>}
+    </section>
+  );
+}
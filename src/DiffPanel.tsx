@@ -0,0 +1,88 @@
+import type { Comparison } from "./DatasetContext";
+import { countChanges, describeChange } from "./diff";
+import type { ChangeStatus, ChangeType } from "./diff";
+
+interface DiffPanelProps {
+  comparison: Comparison;
+  colors: Record<ChangeStatus, string>;
+  /** Whether only the changed subjects and links are shown. */
+  changesOnly: boolean;
+  onChangesOnly: (changesOnly: boolean) => void;
+  onClose: () => void;
+}
+
+// Number of changes listed under each type
+const EXAMPLES = 50;
+
+const STATUS_LABELS: Record<ChangeStatus, string> = {
+  added: "Added",
+  removed: "Removed",
+  changed: "Changed details",
+  affected: "Dependents changed",
+  unchanged: "Unchanged",
+};
+
+/**
+ * Lists the changes since an earlier version of the dataset, with the
+ * colours they are shown in.
+ */
+export function DiffPanel({
+  comparison,
+  colors,
+  changesOnly,
+  onChangesOnly,
+  onClose,
+}: DiffPanelProps) {
+  const { changes, name } = comparison;
+  const counts = Object.entries(countChanges(changes)) as [
+    ChangeType,
+    number
+  ][];
+
+  return (
+    <section className="panel" aria-label="Changes">
+      <div className="panel-actions">
+        <h2>Changes since {name}</h2>
+        <button type="button" aria-label="Stop comparing" onClick={onClose}>
+          ×
+        </button>
+      </div>
+      <ul className="legend">
+        {(Object.keys(STATUS_LABELS) as ChangeStatus[]).map((status) => (
+          <li key={status}>
+            <span
+              className="swatch"
+              style={{ backgroundColor: colors[status] }}
+            />
+            <span className="legend-name">{STATUS_LABELS[status]}</span>
+          </li>
+        ))}
+      </ul>
+      <label>
+        <input
+          type="checkbox"
+          checked={changesOnly}
+          onChange={(e) => onChangesOnly(e.target.checked)}
+        />{" "}
+        Only changed subjects
+      </label>
+      {counts.length === 0 && <p>No changes found.</p>}
+      {counts.map(([type, count]) => (
+        <details key={type}>
+          <summary>
+            {count} {type}
+          </summary>
+          <ul>
+            {changes
+              .filter((change) => change.type === type)
+              .slice(0, EXAMPLES)
+              .map((change, i) => (
+                <li key={i}>{describeChange(change)}</li>
+              ))}
+            {count > EXAMPLES && <li>… and {count - EXAMPLES} more</li>}
+          </ul>
+        </details>
+      ))}
+    </section>
+  );
+}
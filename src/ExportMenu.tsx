@@ -0,0 +1,46 @@
+import { download, EXPORTERS } from "./exporters";
+import type { ExportFormat } from "./exporters";
+import type { GraphData } from "./types";
+
+interface ExportMenuProps {
+  data: GraphData;
+  /** The file name, without an extension. */
+  name: string;
+  /** Returns the canvas the graph is drawn on. */
+  canvas: () => HTMLCanvasElement | null | undefined;
+}
+
+/**
+ * Saves the visible subjects and links, or a picture of them.
+ */
+export function ExportMenu({ data, name, canvas }: ExportMenuProps) {
+  const save = (format: ExportFormat) => {
+    const { suffix, type, serialize } = EXPORTERS[format];
+    download(`${name}${suffix}`, new Blob([serialize(data)], { type }));
+  };
+
+  const snapshot = () => {
+    const image = canvas()?.toDataURL("image/png");
+    if (image) {
+      download(`${name}.png`, image);
+    }
+  };
+
+  return (
+    <details className="panel">
+      <summary>
+        Export {data.nodes.length} subjects and {data.links.length} links
+      </summary>
+      <div className="panel-actions export">
+        {(Object.keys(EXPORTERS) as ExportFormat[]).map((format) => (
+          <button key={format} type="button" onClick={() => save(format)}>
+            {EXPORTERS[format].label}
+          </button>
+        ))}
+        <button type="button" onClick={snapshot}>
+          PNG
+        </button>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,88 @@
+import type { SearchEntry } from "./fuzzySearch";
+import { Graph } from "./graph";
+import { subjectName } from "./subjects";
+import { SubjectSearch } from "./SubjectSearch";
+
+interface FocusPanelProps {
+  graph: Graph;
+  index: SearchEntry[];
+  /** The current subject, which only the subject search changes. */
+  current: number;
+  /** The focus subjects, including the current subject. */
+  focus: number[];
+  /** The colour of each focus subject. */
+  colors: string[];
+  /** The subjects every focus subject requires. */
+  shared: number[];
+  onAdd: (id: number) => void;
+  onRemove: (id: number) => void;
+  onSelect: (id: number) => void;
+}
+
+/**
+ * Edits the extra focus subjects and lists the prerequisites they share.
+ */
+export function FocusPanel({
+  graph,
+  index,
+  current,
+  focus,
+  colors,
+  shared,
+  onAdd,
+  onRemove,
+  onSelect,
+}: FocusPanelProps) {
+  const name = (id: number) => {
+    const node = graph.node(id);
+    return node ? subjectName(node) : id;
+  };
+
+  return (
+    <section className="panel" aria-label="Focus subjects">
+      <h2>Focus subjects</h2>
+      <SubjectSearch
+        label="Add focus subject"
+        index={index}
+        selected={undefined}
+        onSelect={onAdd}
+      />
+      <ul className="chips">
+        {focus.map((id, i) => (
+          <li key={id} style={{ borderColor: colors[i] }}>
+            <button type="button" className="link" onClick={() => onSelect(id)}>
+              {name(id)}
+            </button>
+            {id !== current && (
+              <button
+                type="button"
+                aria-label={`Remove ${name(id)}`}
+                onClick={() => onRemove(id)}
+              >
+                ×
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      {focus.length > 1 && (
+        <>
+          <h3>Shared prerequisites ({shared.length})</h3>
+          <ul>
+            {shared.map((id) => (
+              <li key={id}>
+                <button
+                  type="button"
+                  className="link"
+                  onClick={() => onSelect(id)}
+                >
+                  {name(id)}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { CENTRALITY_SCORES } from "./centrality";
+import type { CentralityScore, CentralityScores } from "./centrality";
+import { Graph } from "./graph";
+
+interface GatewayTableProps {
+  graph: Graph;
+  /** The scores of every subject, `undefined` while they are computed. */
+  scores: CentralityScores[] | undefined;
+  /** Why the scores could not be computed. */
+  error?: string;
+  onSelect: (id: number) => void;
+}
+
+// Subjects ranked at once
+const ROW_LIMIT = 50;
+
+const format = (score: CentralityScore, value: number) =>
+  score === "pageRank"
+    ? value.toExponential(2)
+    : Number.isInteger(value)
+    ? value
+    : value.toFixed(1);
+
+/**
+ * Ranks the subjects that block the most other subjects when failed or
+ * cancelled.
+ */
+export function GatewayTable({
+  graph,
+  scores,
+  error,
+  onSelect,
+}: GatewayTableProps) {
+  const [sortBy, setSortBy] = useState<CentralityScore>("dependents");
+
+  if (error !== undefined) {
+    return (
+      <section className="panel" aria-label="Gateway subjects">
+        <h2>Gateway subjects</h2>
+        <p role="alert">Could not compute the scores: {error}</p>
+      </section>
+    );
+  }
+  if (scores === undefined) {
+    return (
+      <section className="panel" aria-label="Gateway subjects">
+        <h2>Computing gateway subjects…</h2>
+      </section>
+    );
+  }
+
+  const ranked = [...scores]
+    .sort((a, b) => b[sortBy] - a[sortBy])
+    .slice(0, ROW_LIMIT);
+
+  return (
+    <section className="panel" aria-label="Gateway subjects">
+      <h2>Gateway subjects</h2>
+      <table className="metrics">
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>Subject</th>
+            {(Object.keys(CENTRALITY_SCORES) as CentralityScore[]).map(
+              (score) => (
+                <th
+                  key={score}
+                  aria-sort={score === sortBy ? "descending" : "none"}
+                >
+                  <button
+                    type="button"
+                    className="link"
+                    onClick={() => setSortBy(score)}
+                  >
+                    {CENTRALITY_SCORES[score]}
+                  </button>
+                </th>
+              )
+            )}
+          </tr>
+        </thead>
+        <tbody>
+          {ranked.map((row, i) => (
+            <tr key={row.id} onClick={() => onSelect(row.id)}>
+              <td>{i + 1}</td>
+              <td>{graph.node(row.id)?.label ?? row.id}</td>
+              {(Object.keys(CENTRALITY_SCORES) as CentralityScore[]).map(
+                (score) => (
+                  <td key={score}>{format(score, row[score])}</td>
+                )
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
@@ -0,0 +1,317 @@
+import { useEffect, useMemo, useRef } from "react";
+import ForceGraph2D from "react-force-graph-2d";
+import type {
+  ForceGraphMethods as ForceGraph2DMethods,
+  ForceGraphProps as ForceGraph2DProps,
+  LinkObject,
+  NodeObject,
+} from "react-force-graph-2d";
+import ForceGraph3D from "react-force-graph-3d";
+import type { ForceGraphMethods as ForceGraph3DMethods } from "react-force-graph-3d";
+import SpriteText from "three-spritetext";
+import { subjectName } from "./subjects";
+import type { DirectedEdge, GraphData, Node } from "./types";
+
+export type Renderer = "3d" | "2d" | "dag";
+
+export const RENDERERS: Record<string, Renderer> = {
+  "Force 3D": "3d",
+  "Force 2D": "2d",
+  Hierarchical: "dag",
+};
+
+/**
+ * Checks whether the browser can draw with WebGL, which the 3D renderer needs.
+ * @returns Whether a WebGL context can be created.
+ */
+export function webglAvailable(): boolean {
+  try {
+    const canvas = document.createElement("canvas");
+    return Boolean(canvas.getContext("webgl2") ?? canvas.getContext("webgl"));
+  } catch {
+    return false;
+  }
+}
+
+// A node as laid out by the renderers
+type LayoutNode = Node & {
+  x?: number;
+  y?: number;
+  vx?: number;
+  vy?: number;
+  fx?: number;
+  fy?: number;
+  fz?: number;
+};
+
+interface GraphViewProps {
+  renderer: Renderer;
+  data: GraphData;
+  width?: number;
+  height?: number;
+  /** The subject pinned to the centre of the layout. */
+  anchor: number;
+  /** Hop distances from the anchor, to lay the nodes out in rings by. */
+  rings?: Map<number, number>;
+  showLabels: boolean;
+  nodeLabel: (node: Node) => string;
+  nodeColor: (node: Node) => string | undefined;
+  /** The relative size of a node, `1` by default. */
+  nodeSize: (node: Node) => number;
+  linkColor: (link: DirectedEdge) => string;
+  linkLabel: (link: DirectedEdge) => string;
+  linkWidth: (link: DirectedEdge) => number;
+  linkParticles: (link: DirectedEdge) => number;
+  onNodeClick: (node: Node, event: MouseEvent) => void;
+}
+
+// Distance between the layers of the hierarchical layout
+const DAG_LEVEL_DISTANCE = 40;
+
+// Distance between the hop rings around the anchor
+const RING_SPACING = 60;
+
+// The props every renderer takes alike
+type SharedProps = Pick<
+  ForceGraph2DProps,
+  | "graphData"
+  | "width"
+  | "height"
+  | "nodeLabel"
+  | "nodeColor"
+  | "nodeVal"
+  | "linkColor"
+  | "linkLabel"
+  | "linkWidth"
+  | "linkDirectionalParticles"
+  | "linkDirectionalParticleWidth"
+  | "linkDirectionalArrowLength"
+  | "linkDirectionalArrowRelPos"
+  | "enableNodeDrag"
+  | "onNodeClick"
+>;
+
+// The renderers hand back the nodes and links they were given
+const asNode = (node: NodeObject) => node as LayoutNode;
+const asLink = (link: LinkObject) => link as DirectedEdge;
+
+interface RingForce {
+  (alpha: number): void;
+  initialize: (nodes: NodeObject[]) => void;
+}
+
+/**
+ * A force pulling each node onto the circle of its hop distance around the
+ * origin, in the plane of the screen. Nodes without a ring are left alone.
+ * @param rings The hop distance of each node.
+ * @returns The force, for the force layout.
+ */
+const ringForce = (rings: Map<number, number>): RingForce => {
+  let nodes: LayoutNode[] = [];
+  const force = (alpha: number) => {
+    for (const node of nodes) {
+      const ring = rings.get(node.id);
+      if (
+        ring === undefined ||
+        !Number.isFinite(ring) ||
+        node.x === undefined ||
+        node.y === undefined
+      ) {
+        continue;
+      }
+      const radius = Math.hypot(node.x, node.y) || 1;
+      const k = ((ring * RING_SPACING - radius) / radius) * alpha;
+      node.vx = (node.vx ?? 0) + node.x * k;
+      node.vy = (node.vy ?? 0) + node.y * k;
+    }
+  };
+  force.initialize = (initial: NodeObject[]) => {
+    nodes = initial.map(asNode);
+  };
+  return force;
+};
+
+/**
+ * Renders the graph with one of the force directed or hierarchical layouts.
+ * Every renderer shares the same labels, colours and click handling.
+ */
+export function GraphView({
+  renderer,
+  data,
+  width,
+  height,
+  anchor,
+  rings,
+  showLabels,
+  nodeLabel,
+  nodeColor,
+  nodeSize,
+  linkColor,
+  linkLabel,
+  linkWidth,
+  linkParticles,
+  onNodeClick,
+}: GraphViewProps) {
+  const ringLayout = rings !== undefined && renderer !== "dag";
+
+  /**
+   * Fixes the anchor to the origin, unless a study plan already placed it.
+   * The hierarchical layout positions the layers itself. Rings are laid out
+   * in the plane of the screen.
+   */
+  const pin = (node: LayoutNode) => {
+    if (node.id === anchor && node.fx === undefined) {
+      node.fx = 0;
+      if (renderer !== "dag") {
+        node.fy = 0;
+        node.fz = 0;
+      }
+    }
+    if (ringLayout) {
+      node.fz = 0;
+    }
+    return node;
+  };
+
+  // Layouts write positions into the nodes, give each renderer its own copy
+  const graphData = useMemo(
+    () => ({
+      nodes: data.nodes.map((node) => pin({ ...node })),
+      links: data.links.map((link) => ({ ...link })),
+    }),
+    // Ring layouts flatten the 3D layout, start afresh when they change
+    [data, renderer, anchor, rings !== undefined]
+  );
+
+  const layout2D = useRef<ForceGraph2DMethods>();
+  const layout3D = useRef<ForceGraph3DMethods>();
+  useEffect(() => {
+    // Without rings the force has no node to pull
+    const force = ringForce(ringLayout ? rings! : new Map());
+    layout2D.current?.d3Force("rings", force);
+    layout2D.current?.d3ReheatSimulation();
+    layout3D.current?.d3Force("rings", force);
+    layout3D.current?.d3ReheatSimulation();
+  }, [graphData, rings, ringLayout]);
+
+  const colorOf = (node: Node) => nodeColor(node) ?? "white";
+
+  const shared: SharedProps = {
+    graphData,
+    width,
+    height,
+    nodeLabel: (node) => nodeLabel(asNode(node)),
+    nodeColor: (node) => colorOf(asNode(node)),
+    nodeVal: (node) => nodeSize(asNode(node)) ** 3,
+    linkColor: (link) => linkColor(asLink(link)),
+    linkLabel: (link) => linkLabel(asLink(link)),
+    linkWidth: (link) => linkWidth(asLink(link)),
+    linkDirectionalParticles: (link) => linkParticles(asLink(link)),
+    linkDirectionalParticleWidth: 2,
+    linkDirectionalArrowLength: 3.5,
+    linkDirectionalArrowRelPos: 1,
+    enableNodeDrag: false,
+    onNodeClick: (node, event) => onNodeClick(asNode(node), event),
+  };
+
+  if (renderer === "3d") {
+    return (
+      <ForceGraph3D
+        {...shared}
+        ref={layout3D}
+        linkCurvature={0.25}
+        showNavInfo={false}
+        // Keep the last frame readable for snapshots
+        rendererConfig={{ preserveDrawingBuffer: true }}
+        // Without labels the nodes keep the default sphere
+        nodeThreeObject={
+          !showLabels
+            ? undefined
+            : (object) => {
+                const node = asNode(object);
+                const sprite = new SpriteText(subjectName(node));
+                sprite.textHeight = 8 * nodeSize(node);
+                sprite.fontWeight = node.id === anchor ? "bold" : "normal";
+                sprite.color = colorOf(node);
+                sprite.backgroundColor = "rgba(0, 0, 0, 0.5)";
+                return sprite;
+              }
+        }
+      />
+    );
+  }
+
+  const fontSize = (node: Node, scale: number) => (12 * nodeSize(node)) / scale;
+
+  return (
+    <ForceGraph2D
+      // Leaving the hierarchical layout unpins every node, start afresh
+      key={renderer}
+      {...shared}
+      ref={layout2D}
+      backgroundColor="#000"
+      linkCurvature={renderer === "dag" ? 0 : 0.25}
+      dagMode={renderer === "dag" ? "td" : undefined}
+      dagLevelDistance={DAG_LEVEL_DISTANCE}
+      // Requisite cycles have no layering, place them where they fall
+      onDagError={() => undefined}
+      onRenderFramePre={(ctx: CanvasRenderingContext2D, scale: number) => {
+        if (!ringLayout) {
+          return;
+        }
+        // Guides for the rings under the graph
+        const outermost = Math.max(
+          0,
+          ...Array.from(rings!.values()).filter(Number.isFinite)
+        );
+        ctx.strokeStyle = "#333";
+        ctx.lineWidth = 1 / scale;
+        for (let ring = 1; ring <= outermost; ring++) {
+          ctx.beginPath();
+          ctx.arc(0, 0, ring * RING_SPACING, 0, 2 * Math.PI);
+          ctx.stroke();
+        }
+      }}
+      nodeCanvasObjectMode={() => (showLabels ? "replace" : "after")}
+      nodeCanvasObject={(object, ctx, scale) => {
+        if (!showLabels) {
+          return;
+        }
+
+        const node = asNode(object);
+        const text = subjectName(node);
+        const size = fontSize(node, scale);
+        ctx.font = `${node.id === anchor ? "bold " : ""}${size}px sans-serif`;
+        const textWidth = ctx.measureText(text).width;
+        ctx.fillStyle = "rgba(0, 0, 0, 0.5)";
+        ctx.fillRect(
+          node.x! - textWidth / 2 - size / 4,
+          node.y! - size * 0.7,
+          textWidth + size / 2,
+          size * 1.4
+        );
+        ctx.textAlign = "center";
+        ctx.textBaseline = "middle";
+        ctx.fillStyle = colorOf(node);
+        ctx.fillText(text, node.x!, node.y!);
+      }}
+      nodePointerAreaPaint={
+        !showLabels
+          ? undefined
+          : (object, color, ctx, scale) => {
+              const node = asNode(object);
+              const size = fontSize(node, scale);
+              ctx.font = `${size}px sans-serif`;
+              const textWidth = ctx.measureText(subjectName(node)).width;
+              ctx.fillStyle = color;
+              ctx.fillRect(
+                node.x! - textWidth / 2 - size / 4,
+                node.y! - size * 0.7,
+                textWidth + size / 2,
+                size * 1.4
+              );
+            }
+      }
+    />
+  );
+}
@@ -0,0 +1,29 @@
+import type { LoadProgress } from "./dataset";
+
+const STAGE_LABELS: Record<LoadProgress["stage"], string> = {
+  structure: "Loading subject links…",
+  metadata: "Loading subject details…",
+};
+
+/**
+ * Shows how far the dataset has downloaded.
+ */
+export function LoadingIndicator({
+  progress,
+}: {
+  progress: LoadProgress | undefined;
+}) {
+  const total = progress?.total;
+  return (
+    <div className="loading" role="status">
+      <label>
+        {STAGE_LABELS[progress?.stage ?? "structure"]}
+        {/* Without a value the bar shows that the size is unknown */}
+        <progress
+          value={total === undefined ? undefined : progress?.loaded}
+          max={total}
+        />
+      </label>
+    </div>
+  );
+}
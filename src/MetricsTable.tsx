@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { METRICS } from "./analytics";
+import type { Metric, SubjectMetrics } from "./analytics";
+import { Graph } from "./graph";
+
+interface MetricsTableProps {
+  graph: Graph;
+  rows: SubjectMetrics[];
+  onSelect: (id: number) => void;
+}
+
+// Rows rendered at once, the rest are reachable by sorting
+const ROW_LIMIT = 100;
+
+/**
+ * Sortable table of the structural metrics of subjects.
+ */
+export function MetricsTable({ graph, rows, onSelect }: MetricsTableProps) {
+  const [sortBy, setSortBy] = useState<Metric>("depth");
+  const [descending, setDescending] = useState(true);
+
+  const sorted = [...rows]
+    .sort((a, b) =>
+      descending ? b[sortBy] - a[sortBy] : a[sortBy] - b[sortBy]
+    )
+    .slice(0, ROW_LIMIT);
+
+  const sort = (metric: Metric) => {
+    if (metric === sortBy) {
+      setDescending(!descending);
+    } else {
+      setSortBy(metric);
+      setDescending(true);
+    }
+  };
+
+  return (
+    <section className="panel" aria-label="Subject metrics">
+      <table className="metrics">
+        <thead>
+          <tr>
+            <th>Subject</th>
+            {(Object.keys(METRICS) as Metric[]).map((metric) => (
+              <th
+                key={metric}
+                aria-sort={
+                  metric !== sortBy
+                    ? "none"
+                    : descending
+                    ? "descending"
+                    : "ascending"
+                }
+              >
+                <button
+                  type="button"
+                  className="link"
+                  onClick={() => sort(metric)}
+                >
+                  {METRICS[metric]}
+                </button>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.map((row) => (
+            <tr key={row.id} onClick={() => onSelect(row.id)}>
+              <td>{graph.node(row.id)?.label ?? row.id}</td>
+              {(Object.keys(METRICS) as Metric[]).map((metric) => (
+                <td key={metric}>{row[metric]}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {rows.length > ROW_LIMIT && (
+        <small>
+          Showing {ROW_LIMIT} of {rows.length}
+        </small>
+      )}
+    </section>
+  );
+}
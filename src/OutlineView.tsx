@@ -0,0 +1,273 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { KeyboardEvent } from "react";
+import { buildOutline } from "./outline";
+import type { Outline, OutlineItem } from "./outline";
+import type { GraphData, Node } from "./types";
+
+interface OutlineViewProps {
+  data: GraphData;
+  /** The subject to show the prerequisites and dependents of. */
+  anchor: number;
+  /** The subject whose details are shown. */
+  selected?: number;
+  /** Explains why the outline is shown, when it replaced the graph. */
+  notice?: string;
+  nodeColor: (node: Node) => string | undefined;
+  onSelect: (id: number) => void;
+}
+
+// A visible row, with its position for assistive technology
+interface Row {
+  item: OutlineItem;
+  level: number;
+  position: number;
+  size: number;
+  parent?: string;
+}
+
+/**
+ * Returns the rows shown when the given rows are expanded.
+ */
+const visibleRows = (outline: Outline, expanded: Set<string>) => {
+  const rows: Row[] = [];
+  const add = (items: OutlineItem[], level: number, parent?: string) =>
+    items.forEach((item, i) => {
+      rows.push({ item, level, position: i + 1, size: items.length, parent });
+      if (item.expandable && expanded.has(item.key)) {
+        add(outline.children(item), level + 1, item.key);
+      }
+    });
+  add(outline.roots, 1);
+  return rows;
+};
+
+/**
+ * Returns the rows expanded when an outline is first shown: a single root
+ * and its headings.
+ */
+const initiallyExpanded = (outline: Outline) => {
+  if (outline.roots.length !== 1) {
+    return new Set<string>();
+  }
+  const [root] = outline.roots;
+  return new Set([
+    root.key,
+    ...outline
+      .children(root)
+      .filter((item) => item.kind === "group")
+      .map((item) => item.key),
+  ]);
+};
+
+/**
+ * Shows the subjects on screen as an expandable outline of prerequisites
+ * and dependents, for keyboards and screen readers, and for browsers that
+ * cannot draw the graph. Follows the tree view pattern of the ARIA authoring
+ * practices: arrows move between and open rows, Home and End jump to the
+ * first and last row, `*` opens every row beside the current one and Enter
+ * shows the details of a subject or jumps to the row a repeat refers to.
+ */
+export function OutlineView({
+  data,
+  anchor,
+  selected,
+  notice,
+  nodeColor,
+  onSelect,
+}: OutlineViewProps) {
+  const outline = useMemo(() => buildOutline(data, anchor), [data, anchor]);
+  const nodes = useMemo(
+    () => new Map(data.nodes.map((node) => [node.id, node])),
+    [data]
+  );
+
+  const [expanded, setExpanded] = useState(() => initiallyExpanded(outline));
+  const [focused, setFocused] = useState<string>();
+  useEffect(() => {
+    setExpanded(initiallyExpanded(outline));
+    setFocused(undefined);
+  }, [outline]);
+
+  const rows = useMemo(
+    () => visibleRows(outline, expanded),
+    [outline, expanded]
+  );
+  const current = rows.find((row) => row.item.key === focused) ?? rows[0];
+
+  // Moves the keyboard focus along with the current row, once rendered
+  const elements = useRef(new Map<string, HTMLLIElement>());
+  const moveFocus = useRef(false);
+  useEffect(() => {
+    if (moveFocus.current && current) {
+      moveFocus.current = false;
+      elements.current.get(current.item.key)?.focus();
+    }
+  });
+
+  // Follow subjects selected outside the outline
+  useEffect(() => {
+    const row = rows.find(
+      ({ item }) => item.kind === "subject" && item.id === selected
+    );
+    if (row) {
+      setFocused(row.item.key);
+      elements.current.get(row.item.key)?.scrollIntoView({ block: "nearest" });
+    }
+    // Only when the selection changes, not when rows open
+  }, [selected]);
+
+  const focus = (key: string) => {
+    moveFocus.current = true;
+    setFocused(key);
+  };
+
+  const setOpen = (keys: string[], open: boolean) =>
+    setExpanded((previous) => {
+      const next = new Set(previous);
+      keys.forEach((key) => (open ? next.add(key) : next.delete(key)));
+      return next;
+    });
+
+  /**
+   * Opens every row above the row a repeat refers to and moves there.
+   */
+  const reveal = (key: string) => {
+    const above: string[] = [];
+    for (let parent = outline.parents.get(key); parent; ) {
+      above.push(parent);
+      parent = outline.parents.get(parent);
+    }
+    setOpen(above, true);
+    focus(key);
+  };
+
+  const activate = ({ item }: Row) => {
+    if (item.kind === "reference") {
+      reveal(item.target!);
+    } else if (item.kind === "group") {
+      setOpen([item.key], !expanded.has(item.key));
+    } else {
+      onSelect(item.id!);
+    }
+  };
+
+  const onKeyDown = (event: KeyboardEvent) => {
+    if (!current) {
+      return;
+    }
+    const index = rows.indexOf(current);
+    const { item } = current;
+    const open = item.expandable && expanded.has(item.key);
+    switch (event.key) {
+      case "ArrowDown":
+        focus(rows[Math.min(index + 1, rows.length - 1)].item.key);
+        break;
+      case "ArrowUp":
+        focus(rows[Math.max(index - 1, 0)].item.key);
+        break;
+      case "Home":
+        focus(rows[0].item.key);
+        break;
+      case "End":
+        focus(rows[rows.length - 1].item.key);
+        break;
+      case "ArrowRight":
+        if (open) {
+          focus(rows[index + 1].item.key);
+        } else if (item.expandable) {
+          setOpen([item.key], true);
+        }
+        break;
+      case "ArrowLeft":
+        if (open) {
+          setOpen([item.key], false);
+        } else if (current.parent) {
+          focus(current.parent);
+        }
+        break;
+      case "*":
+        setOpen(
+          rows
+            .filter((row) => row.parent === current.parent)
+            .map((row) => row.item.key),
+          true
+        );
+        break;
+      case "Enter":
+      case " ":
+        activate(current);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  return (
+    <section className="outline" aria-label="Subject outline">
+      {notice && <p role="status">{notice}</p>}
+      {rows.length === 0 ? (
+        <p>No subjects to show.</p>
+      ) : (
+        <ul role="tree" aria-label="Prerequisites" onKeyDown={onKeyDown}>
+          {rows.map((row) => {
+            const { item, level, position, size } = row;
+            const node = item.id === undefined ? undefined : nodes.get(item.id);
+            return (
+              <li
+                key={item.key}
+                ref={(element) => {
+                  if (element) {
+                    elements.current.set(item.key, element);
+                  } else {
+                    elements.current.delete(item.key);
+                  }
+                }}
+                role="treeitem"
+                aria-level={level}
+                aria-posinset={position}
+                aria-setsize={size}
+                aria-expanded={
+                  item.expandable ? expanded.has(item.key) : undefined
+                }
+                aria-selected={item.kind !== "group" && item.id === selected}
+                aria-label={
+                  item.kind === "reference"
+                    ? `${item.label}, shown in full elsewhere`
+                    : undefined
+                }
+                tabIndex={row === current ? 0 : -1}
+                className={`outline-${item.kind}`}
+                style={{ paddingLeft: `${level - 1}em` }}
+                onClick={() => {
+                  focus(item.key);
+                  if (item.expandable && item.kind === "subject") {
+                    setOpen([item.key], !expanded.has(item.key));
+                  }
+                  activate(row);
+                }}
+              >
+                <span className="outline-toggle" aria-hidden>
+                  {item.expandable
+                    ? expanded.has(item.key)
+                      ? "▾"
+                      : "▸"
+                    : item.kind === "reference"
+                    ? "↪"
+                    : ""}
+                </span>
+                {node && (
+                  <span
+                    className="swatch"
+                    style={{ backgroundColor: nodeColor(node) ?? "white" }}
+                  />
+                )}
+                {item.label}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,92 @@
+import { useEffect, useRef, useState } from "react";
+import type { FormEvent } from "react";
+import { ExpressionError, parseExpression } from "./expression";
+
+interface QueryBoxProps {
+  /** The query applied, empty when none is. */
+  value: string;
+  /** The number of subjects the applied query found, once known. */
+  count?: number;
+  onChange: (value: string) => void;
+}
+
+/**
+ * Text box to show the subjects a query describes instead of the tree
+ * around the subject. Queries are checked before they are applied, pointing
+ * at the first mistake.
+ */
+export function QueryBox({ value, count, onChange }: QueryBoxProps) {
+  const [draft, setDraft] = useState(value);
+  const [error, setError] = useState<ExpressionError>();
+  const input = useRef<HTMLInputElement>(null);
+  // Follow queries changed through the URL
+  useEffect(() => {
+    setDraft(value);
+    setError(undefined);
+  }, [value]);
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault();
+    if (draft.trim() === "") {
+      onChange("");
+      return;
+    }
+    try {
+      parseExpression(draft);
+      setError(undefined);
+      onChange(draft.trim());
+    } catch (reason) {
+      if (!(reason instanceof ExpressionError)) {
+        throw reason;
+      }
+      setError(reason);
+      input.current?.focus();
+      input.current?.setSelectionRange(reason.position, reason.position + 1);
+    }
+  };
+
+  return (
+    <form className="panel query-box" onSubmit={submit}>
+      <label>
+        Query
+        <input
+          ref={input}
+          type="text"
+          value={draft}
+          placeholder="ancestors(48024) & course:Engineering"
+          spellCheck={false}
+          aria-invalid={error !== undefined}
+          aria-describedby="query-help"
+          onChange={(e) => {
+            setDraft(e.target.value);
+            setError(undefined);
+          }}
+        />
+      </label>
+      {error && (
+        <div role="alert">
+          <pre aria-hidden>
+            {draft}
+            {"\n"}
+            {" ".repeat(error.position)}^
+          </pre>
+          {error.message} at character {error.position + 1}
+        </div>
+      )}
+      <div className="panel-actions">
+        <button type="submit">Apply</button>
+        {value && (
+          <button type="button" onClick={() => onChange("")}>
+            Clear
+          </button>
+        )}
+        {value && count !== undefined && <small>{count} subjects</small>}
+      </div>
+      <small id="query-help">
+        Functions: ancestors, descendants, parents, children, siblings, cousins,
+        related and path(a, b). Filters: course:, label: and code:, or ~ to
+        match part of a value. Combine with | (or), &amp; (and) and - (but not).
+      </small>
+    </form>
+  );
+}
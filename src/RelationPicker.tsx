@@ -0,0 +1,74 @@
+import { RELATIONS } from "./search";
+import type { Relation } from "./search";
+
+export const RELATION_LABELS: Record<Relation, string> = {
+  self: "Self",
+  children: "Direct prerequisites",
+  parents: "Direct dependents",
+  siblings: "Siblings",
+  descendants: "All prerequisites",
+  ancestors: "All dependents",
+  cousins: "Cousins",
+  related: "Related",
+  tree: "Tree",
+  web: "Web",
+  isolated: "Isolated subjects",
+};
+
+interface RelationPickerProps {
+  relations: Relation[];
+  colors: Record<Relation, string>;
+  /** The number of subjects shown for each relation, if known. */
+  counts?: Map<Relation, number>;
+  onChange: (relations: Relation[]) => void;
+}
+
+/**
+ * Picks the relations of the subjects shown around the subject, with the
+ * colour each relation is shown in. Subjects in several relations count
+ * towards the closest.
+ */
+export function RelationPicker({
+  relations,
+  colors,
+  counts,
+  onChange,
+}: RelationPickerProps) {
+  const toggle = (relation: Relation) =>
+    onChange(
+      relations.includes(relation)
+        ? relations.filter((other) => other !== relation)
+        : RELATIONS.filter(
+            (other) => other === relation || relations.includes(other)
+          )
+    );
+
+  return (
+    <section className="panel" aria-label="Relationships">
+      <h2>Relationships</h2>
+      <ul className="legend">
+        {RELATIONS.map((relation) => (
+          <li key={relation}>
+            <span
+              className="swatch"
+              style={{ backgroundColor: colors[relation] }}
+            />
+            <span className="legend-name">
+              {RELATION_LABELS[relation]}{" "}
+              {counts && relations.includes(relation) && (
+                <small>({counts.get(relation) ?? 0})</small>
+              )}
+            </span>
+            <button
+              type="button"
+              aria-pressed={relations.includes(relation)}
+              onClick={() => toggle(relation)}
+            >
+              Show
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,52 @@
+import { Graph } from "./graph";
+import type { WeightedPath } from "./search";
+
+interface RoutesPanelProps {
+  graph: Graph;
+  routes: WeightedPath[];
+  selected: number;
+  onSelect: (index: number) => void;
+}
+
+const name = (id: number, graph: Graph) => graph.node(id)?.label ?? id;
+
+/**
+ * Lists the alternative routes between two subjects, cheapest first.
+ */
+export function RoutesPanel({
+  graph,
+  routes,
+  selected,
+  onSelect,
+}: RoutesPanelProps) {
+  if (routes.length === 0) {
+    return (
+      <section className="panel" aria-label="Routes">
+        <h2>No route between these subjects</h2>
+      </section>
+    );
+  }
+
+  return (
+    <section className="panel" aria-label="Routes">
+      <h2>
+        {routes.length} route{routes.length === 1 ? "" : "s"}
+      </h2>
+      <ol>
+        {routes.map(({ path, cost }, i) => (
+          <li key={path.join(",")}>
+            <button
+              type="button"
+              className="link"
+              aria-pressed={i === selected}
+              onClick={() => onSelect(i)}
+            >
+              {path.map((id) => name(id, graph)).join(" → ")}
+            </button>{" "}
+            <small>(cost {cost})</small>
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
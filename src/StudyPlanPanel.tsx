@@ -0,0 +1,57 @@
+import { Graph } from "./graph";
+import type { StudyPlan } from "./plan";
+import { subjectName } from "./subjects";
+
+interface StudyPlanPanelProps {
+  plan: StudyPlan;
+  graph: Graph;
+}
+
+const REASONS = {
+  missing: "not in the dataset",
+  cycle: "circular requisites",
+  credits: "too few credit points planned",
+  blocked: "depends on an unschedulable subject",
+};
+
+const name = (id: number, graph: Graph) => {
+  const node = graph.node(id);
+  return node ? subjectName(node) : id.toString();
+};
+
+/**
+ * Lists the semesters of a study plan and what could not be scheduled.
+ */
+export function StudyPlanPanel({ plan, graph }: StudyPlanPanelProps) {
+  return (
+    <section className="panel" aria-label="Study plan">
+      <h2>
+        {plan.semesters.length} semester
+        {plan.semesters.length === 1 ? "" : "s"}
+      </h2>
+      <ol>
+        {plan.semesters.map((semester, i) => (
+          <li key={i}>
+            <ul>
+              {semester.map((id) => (
+                <li key={id}>{name(id, graph)}</li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ol>
+      {plan.unschedulable.length > 0 && (
+        <>
+          <h3>Cannot be scheduled</h3>
+          <ul>
+            {plan.unschedulable.map(({ id, reason }) => (
+              <li key={id}>
+                {name(id, graph)} <small>({REASONS[reason]})</small>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,90 @@
+import { Graph } from "./graph";
+import { ancestors, descendants } from "./search";
+import { handbookCode, subjectName } from "./subjects";
+
+interface SubjectPanelProps {
+  graph: Graph;
+  id: number;
+  /** Called to re-center the graph on a subject. */
+  onSelect: (id: number) => void;
+  onClose: () => void;
+}
+
+interface ChipsProps {
+  graph: Graph;
+  ids: readonly number[];
+  onSelect: (id: number) => void;
+}
+
+function Chips({ graph, ids, onSelect }: ChipsProps) {
+  if (ids.length === 0) {
+    return <small>None</small>;
+  }
+  return (
+    <ul className="chips">
+      {ids.map((id) => {
+        const node = graph.node(id);
+        return (
+          <li key={id}>
+            <button
+              type="button"
+              title={node?.label ?? undefined}
+              onClick={() => onSelect(id)}
+            >
+              {id}
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+/**
+ * Shows the details of a subject and its direct requisite relations.
+ */
+export function SubjectPanel({
+  graph,
+  id,
+  onSelect,
+  onClose,
+}: SubjectPanelProps) {
+  const node = graph.node(id);
+
+  return (
+    <section className="panel" aria-label="Subject details">
+      <div className="panel-actions">
+        <h2>{node ? subjectName(node) : id}</h2>
+        <button type="button" aria-label="Close" onClick={onClose}>
+          ×
+        </button>
+      </div>
+      <dl>
+        <dt>Id</dt>
+        <dd>{id}</dd>
+        <dt>Handbook code</dt>
+        <dd>{(node && handbookCode(node)) ?? "Unknown"}</dd>
+        <dt>Course</dt>
+        <dd>{node?.course ?? "Unknown"}</dd>
+      </dl>
+      <h3>Prerequisites</h3>
+      <Chips graph={graph} ids={graph.children(id)} onSelect={onSelect} />
+      <h3>Required by</h3>
+      <Chips graph={graph} ids={graph.parents(id)} onSelect={onSelect} />
+      <p>
+        {descendants(id, graph).length} prerequisites and{" "}
+        {ancestors(id, graph).length} dependents in total
+      </p>
+      <div className="panel-actions">
+        <button type="button" onClick={() => onSelect(id)}>
+          Center here
+        </button>
+        {node?.url && (
+          <a href={node.url} target="_blank" rel="noreferrer">
+            Open in handbook
+          </a>
+        )}
+      </div>
+    </section>
+  );
+}
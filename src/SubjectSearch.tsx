@@ -0,0 +1,105 @@
+import { useMemo, useState } from "react";
+import type { KeyboardEvent } from "react";
+import { searchSubjects } from "./fuzzySearch";
+import type { SearchEntry } from "./fuzzySearch";
+import { handbookCode, subjectName } from "./subjects";
+import type { Node } from "./types";
+
+interface SubjectSearchProps {
+  label: string;
+  index: SearchEntry[];
+  selected: Node | undefined;
+  onSelect: (id: number) => void;
+  onClear?: () => void;
+}
+
+/**
+ * Returns the id of a subject, with its handbook code when they differ.
+ */
+const codes = (node: Node) => {
+  const code = handbookCode(node);
+  return code && code !== node.id.toString() ? `${node.id} · ${code}` : node.id;
+};
+
+/**
+ * Autocomplete box to pick a subject by name, id or handbook code.
+ */
+export function SubjectSearch({
+  label,
+  index,
+  selected,
+  onSelect,
+  onClear,
+}: SubjectSearchProps) {
+  const [query, setQuery] = useState("");
+  const [highlighted, setHighlighted] = useState(0);
+  const matches = useMemo(() => searchSubjects(query, index), [query, index]);
+
+  const choose = (node: Node) => {
+    onSelect(node.id);
+    setQuery("");
+    setHighlighted(0);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setHighlighted((i) => Math.min(i + 1, matches.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setHighlighted((i) => Math.max(i - 1, 0));
+    } else if (e.key === "Enter" && matches[highlighted]) {
+      choose(matches[highlighted].node);
+    } else if (e.key === "Escape") {
+      setQuery("");
+    }
+  };
+
+  return (
+    <div className="subject-search">
+      <label>
+        <span>{label}</span>
+        <input
+          type="search"
+          role="combobox"
+          aria-expanded={matches.length > 0}
+          aria-autocomplete="list"
+          value={query}
+          placeholder={selected ? subjectName(selected) : "Name, id or code"}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setHighlighted(0);
+          }}
+          onKeyDown={handleKeyDown}
+        />
+      </label>
+      {onClear && selected && (
+        <button type="button" onClick={onClear} title="Clear">
+          ×
+        </button>
+      )}
+      {matches.length > 0 && (
+        <ul role="listbox">
+          {matches.map(({ node }, i) => (
+            <li
+              key={node.id}
+              role="option"
+              aria-selected={i === highlighted}
+              onMouseEnter={() => setHighlighted(i)}
+              onMouseDown={(e) => {
+                // Keep the input focused until the click lands
+                e.preventDefault();
+                choose(node);
+              }}
+            >
+              <span>
+                {node.label ?? node.id} <small>{codes(node)}</small>
+              </span>
+              <small>{node.course}</small>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
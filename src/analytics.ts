@@ -0,0 +1,109 @@
+import { Graph } from "./graph";
+import { ancestors, descendants, stronglyConnectedComponents } from "./search";
+
+/**
+ * Structural measures of a subject in the prerequisite graph.
+ */
+export interface SubjectMetrics {
+  id: number;
+  /** Subjects in the longest chain of prerequisites below the subject. */
+  depth: number;
+  /** Subjects in the longest chain of dependents above the subject. */
+  height: number;
+  /** Subjects in the longest chain running through the subject. */
+  chain: number;
+  /** Topological level, `0` for subjects without prerequisites. */
+  level: number;
+  /** Number of transitive prerequisites. */
+  prerequisites: number;
+  /** Number of transitive dependents. */
+  dependents: number;
+}
+
+export type Metric = Exclude<keyof SubjectMetrics, "id">;
+
+export const METRICS: Record<Metric, string> = {
+  depth: "Prerequisite Depth",
+  height: "Dependent Height",
+  chain: "Longest Chain",
+  level: "Topological Level",
+  prerequisites: "Prerequisites",
+  dependents: "Dependents",
+};
+
+/**
+ * Computes the metrics of every subject in the graph.
+ *
+ * Requisite cycles are collapsed into a single step first, so members of a
+ * cycle share a level and count each other once in their chains.
+ * @param graph The indexed graph.
+ * @returns The metrics of each subject, by id.
+ */
+export function subjectMetrics(graph: Graph): Map<number, SubjectMetrics> {
+  const components = stronglyConnectedComponents(graph);
+  const componentOf = new Map<number, number>();
+  components.forEach((members, c) =>
+    members.forEach((id) => componentOf.set(id, c))
+  );
+
+  // Tarjan's algorithm emits every component after the components it
+  // leads to, so prerequisites come before the subjects that need them
+  const size = components.map((members) => members.length);
+  const depth = new Array<number>(components.length).fill(0);
+  const level = new Array<number>(components.length).fill(0);
+  const height = new Array<number>(components.length).fill(0);
+  for (let c = 0; c < components.length; c++) {
+    for (const id of components[c]) {
+      for (const prerequisite of graph.children(id)) {
+        const k = componentOf.get(prerequisite)!;
+        if (k !== c) {
+          depth[c] = Math.max(depth[c], depth[k] + size[k]);
+          level[c] = Math.max(level[c], level[k] + 1);
+        }
+      }
+    }
+  }
+  for (let c = components.length - 1; c >= 0; c--) {
+    for (const id of components[c]) {
+      for (const dependent of graph.parents(id)) {
+        const k = componentOf.get(dependent)!;
+        if (k !== c) {
+          height[c] = Math.max(height[c], height[k] + size[k]);
+        }
+      }
+    }
+  }
+
+  const metrics = new Map<number, SubjectMetrics>();
+  const ids = new Set([
+    ...graph.nodes.map((node) => node.id),
+    ...componentOf.keys(),
+  ]);
+  for (const id of ids) {
+    const c = componentOf.get(id);
+    if (c === undefined) {
+      // A subject without any requisite relations
+      metrics.set(id, {
+        id,
+        depth: 0,
+        height: 0,
+        chain: 1,
+        level: 0,
+        prerequisites: 0,
+        dependents: 0,
+      });
+      continue;
+    }
+    const others = size[c] - 1;
+    metrics.set(id, {
+      id,
+      depth: depth[c] + others,
+      height: height[c] + others,
+      chain: depth[c] + height[c] + size[c],
+      level: level[c],
+      prerequisites: descendants(id, graph).length,
+      dependents: ancestors(id, graph).length,
+    });
+  }
+  return metrics;
+}
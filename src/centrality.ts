@@ -0,0 +1,157 @@
+import { Graph } from "./graph";
+import { ancestors } from "./search";
+
+/**
+ * Network measures of a subject, used to find gateway subjects.
+ */
+export interface CentralityScores {
+  id: number;
+  /** Number of subjects listing the subject as a requisite. */
+  inDegree: number;
+  /** Number of requisites the subject lists. */
+  outDegree: number;
+  /** Number of shortest requisite chains running through the subject. */
+  betweenness: number;
+  /** Share of the importance of its dependents flowing to the subject. */
+  pageRank: number;
+  /** Number of subjects that can no longer be taken without it. */
+  dependents: number;
+}
+
+export type CentralityScore = Exclude<keyof CentralityScores, "id">;
+
+export const CENTRALITY_SCORES: Record<CentralityScore, string> = {
+  dependents: "Blocks",
+  inDegree: "In Degree",
+  outDegree: "Out Degree",
+  betweenness: "Betweenness",
+  pageRank: "PageRank",
+};
+
+/**
+ * Returns the betweenness centrality of every vertex, using Brandes'
+ * algorithm on the unweighted directed graph.
+ * @param ids The ids of the vertices.
+ * @param graph The indexed graph.
+ * @returns The betweenness of each vertex, by id.
+ */
+export function betweenness(ids: number[], graph: Graph): Map<number, number> {
+  const centrality = new Map<number, number>(ids.map((id) => [id, 0]));
+  for (const source of ids) {
+    const stack: number[] = [];
+    const predecessors = new Map<number, number[]>();
+    const paths = new Map<number, number>([[source, 1]]);
+    const distance = new Map<number, number>([[source, 0]]);
+    const queue = [source];
+    for (let head = 0; head < queue.length; head++) {
+      const current = queue[head];
+      stack.push(current);
+      for (const next of graph.children(current)) {
+        if (!distance.has(next)) {
+          distance.set(next, distance.get(current)! + 1);
+          queue.push(next);
+        }
+        if (distance.get(next) === distance.get(current)! + 1) {
+          paths.set(next, (paths.get(next) ?? 0) + paths.get(current)!);
+          const before = predecessors.get(next);
+          if (before === undefined) {
+            predecessors.set(next, [current]);
+          } else {
+            before.push(current);
+          }
+        }
+      }
+    }
+
+    // Accumulate dependencies from the furthest vertices back
+    const dependency = new Map<number, number>();
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      const share = (1 + (dependency.get(current) ?? 0)) / paths.get(current)!;
+      for (const previous of predecessors.get(current) ?? []) {
+        dependency.set(
+          previous,
+          (dependency.get(previous) ?? 0) + paths.get(previous)! * share
+        );
+      }
+      if (current !== source) {
+        centrality.set(
+          current,
+          (centrality.get(current) ?? 0) + (dependency.get(current) ?? 0)
+        );
+      }
+    }
+  }
+  return centrality;
+}
+
+/**
+ * Returns the PageRank of every vertex, following the edges from subjects to
+ * their requisites. Vertices without requisites spread their rank evenly.
+ * @param ids The ids of the vertices.
+ * @param graph The indexed graph.
+ * @param damping The probability of following an edge.
+ * @param iterations The maximum number of power iterations.
+ * @returns The rank of each vertex, by id, summing to `1`.
+ */
+export function pageRank(
+  ids: number[],
+  graph: Graph,
+  damping = 0.85,
+  iterations = 100
+): Map<number, number> {
+  const n = ids.length;
+  let rank = new Map<number, number>(ids.map((id) => [id, 1 / n]));
+  for (let i = 0; i < iterations; i++) {
+    let dangling = 0;
+    for (const id of ids) {
+      if (graph.children(id).length === 0) {
+        dangling += rank.get(id)!;
+      }
+    }
+    const base = (1 - damping) / n + (damping * dangling) / n;
+    const next = new Map<number, number>(ids.map((id) => [id, base]));
+    for (const id of ids) {
+      const requisites = graph.children(id);
+      const share = (damping * rank.get(id)!) / requisites.length;
+      for (const requisite of requisites) {
+        next.set(requisite, next.get(requisite)! + share);
+      }
+    }
+
+    let change = 0;
+    for (const id of ids) {
+      change += Math.abs(next.get(id)! - rank.get(id)!);
+    }
+    rank = next;
+    if (change < 1e-9) {
+      break;
+    }
+  }
+  return rank;
+}
+
+/**
+ * Computes the centrality scores of every subject in the graph.
+ * @param graph The indexed graph.
+ * @returns The scores of each subject, most blocking first.
+ */
+export function centrality(graph: Graph): CentralityScores[] {
+  const ids = Array.from(
+    new Set([...graph.nodes.map((node) => node.id), ...graph.vertices()])
+  );
+  const between = betweenness(ids, graph);
+  const ranks = pageRank(ids, graph);
+  return ids
+    .map((id) => ({
+      id,
+      inDegree: graph.parents(id).length,
+      outDegree: graph.children(id).length,
+      betweenness: between.get(id)!,
+      pageRank: ranks.get(id)!,
+      dependents: ancestors(id, graph).length,
+    }))
+    .sort(
+      (a, b) => b.dependents - a.dependents || b.betweenness - a.betweenness
+    );
+}
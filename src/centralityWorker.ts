@@ -0,0 +1,10 @@
+import { centrality } from "./centrality";
+import { Graph } from "./graph";
+import type { GraphData } from "./types";
+
+// The worker scope posts messages back to the page that started it
+const scope = self as unknown as Worker;
+
+scope.onmessage = (event: MessageEvent<GraphData>) => {
+  scope.postMessage(centrality(new Graph(event.data)));
+};
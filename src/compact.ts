@@ -0,0 +1,178 @@
+import type { DirectedEdge, EdgeKind, GraphData, Node } from "./types";
+
+/**
+ * The version of the compact format, bumped whenever its layout changes.
+ */
+export const COMPACT_VERSION = 1;
+
+/**
+ * The subjects and links of a dataset, enough to lay out and search the
+ * graph before the subject details arrive.
+ */
+export interface CompactStructure {
+  version: number;
+  /** The subject ids, in the order of the metadata rows. */
+  ids: number[];
+  /** The links as `source, target, kind` triples, see `LINK_KINDS`. */
+  links: number[];
+}
+
+/**
+ * The labels, urls and courses of the subjects of a dataset.
+ */
+export interface CompactMetadata {
+  version: number;
+  /** Every distinct label, course and url suffix. */
+  strings: string[];
+  /** The text shared by the start of every url. */
+  urlPrefix: string;
+  /**
+   * The `label, url, course` of each subject as indices into `strings`, in
+   * the order of the structure ids, with -1 for a missing value.
+   */
+  nodes: number[];
+  /** The fields other than the above, by subject index, when present. */
+  extras: Record<number, Pick<Node, "creditPoints" | "requisites">>;
+}
+
+// The codes of the link kinds, 0 standing for a link without a kind
+const LINK_KINDS: (EdgeKind | undefined)[] = [
+  undefined,
+  "prerequisite",
+  "alternative",
+  "corequisite",
+  "antirequisite",
+];
+
+const NODE_FIELDS = 3;
+const LINK_FIELDS = 3;
+
+/**
+ * Returns the text shared by the start of every value.
+ */
+const commonPrefix = (values: string[]) => {
+  if (values.length === 0) {
+    return "";
+  }
+  let prefix = values[0];
+  for (const value of values) {
+    while (!value.startsWith(prefix)) {
+      prefix = prefix.slice(0, -1);
+    }
+  }
+  return prefix;
+};
+
+/**
+ * Converts a dataset to the compact format.
+ * @param data The subjects and their links.
+ * @returns The structure and metadata files.
+ */
+export function compactGraph(data: GraphData): {
+  structure: CompactStructure;
+  metadata: CompactMetadata;
+} {
+  const urlPrefix = commonPrefix(
+    data.nodes.flatMap((node) => (node.url === null ? [] : [node.url]))
+  );
+
+  const strings: string[] = [];
+  const stringIndex = new Map<string, number>();
+  const intern = (value: string | null) => {
+    if (value === null) {
+      return -1;
+    }
+    let index = stringIndex.get(value);
+    if (index === undefined) {
+      index = strings.push(value) - 1;
+      stringIndex.set(value, index);
+    }
+    return index;
+  };
+
+  const extras: CompactMetadata["extras"] = {};
+  data.nodes.forEach(({ creditPoints, requisites }, i) => {
+    if (creditPoints !== undefined || requisites !== undefined) {
+      extras[i] = { creditPoints, requisites };
+    }
+  });
+
+  return {
+    structure: {
+      version: COMPACT_VERSION,
+      ids: data.nodes.map((node) => node.id),
+      links: data.links.flatMap((link) => [
+        link.source,
+        link.target,
+        LINK_KINDS.indexOf(link.kind),
+      ]),
+    },
+    metadata: {
+      version: COMPACT_VERSION,
+      strings,
+      urlPrefix,
+      nodes: data.nodes.flatMap((node) => [
+        intern(node.label),
+        intern(node.url === null ? null : node.url.slice(urlPrefix.length)),
+        intern(node.course),
+      ]),
+      extras,
+    },
+  };
+}
+
+/**
+ * Reads the subjects and links of a compact dataset, without their details.
+ * @param structure The structure file.
+ * @returns The graph data, with every label, url and course missing.
+ */
+export function expandStructure(structure: CompactStructure): GraphData {
+  const links: DirectedEdge[] = [];
+  for (let i = 0; i < structure.links.length; i += LINK_FIELDS) {
+    const [source, target, kind] = structure.links.slice(i, i + LINK_FIELDS);
+    links.push(
+      LINK_KINDS[kind] === undefined
+        ? { source, target }
+        : { source, target, kind: LINK_KINDS[kind] }
+    );
+  }
+  return {
+    nodes: structure.ids.map((id) => ({
+      id,
+      label: null,
+      url: null,
+      course: null,
+    })),
+    links,
+  };
+}
+
+/**
+ * Reads a compact dataset.
+ * @param structure The structure file.
+ * @param metadata The metadata file.
+ * @returns The graph data.
+ */
+export function expandGraph(
+  structure: CompactStructure,
+  metadata: CompactMetadata
+): GraphData {
+  const { links } = expandStructure(structure);
+  const string = (index: number) =>
+    index === -1 ? null : metadata.strings[index];
+  return {
+    nodes: structure.ids.map((id, i) => {
+      const [label, url, course] = metadata.nodes
+        .slice(i * NODE_FIELDS, (i + 1) * NODE_FIELDS)
+        .map(string);
+      const node: Node = {
+        id,
+        label,
+        url: url === null ? null : metadata.urlPrefix + url,
+        course,
+      };
+      return { ...node, ...metadata.extras[i] };
+    }),
+    links,
+  };
+}
@@ -0,0 +1,199 @@
+import { Graph } from "./graph";
+import type { DirectedEdge, GraphData, Node } from "./types";
+
+/**
+ * The course of subjects whose handbook page does not name one.
+ */
+export const UNKNOWN_COURSE = "Unknown";
+
+const COURSE_PALETTE = [
+  "#e6194b",
+  "#3cb44b",
+  "#ffe119",
+  "#4363d8",
+  "#f58231",
+  "#911eb4",
+  "#46f0f0",
+  "#f032e6",
+  "#bcf60c",
+  "#fabebe",
+  "#008080",
+  "#e6beff",
+  "#9a6324",
+  "#fffac8",
+  "#aaffc3",
+  "#808000",
+  "#ffd8b1",
+  "#808080",
+];
+
+/**
+ * Returns the course of a subject.
+ * @param node The subject.
+ * @returns The course, `UNKNOWN_COURSE` if it has none.
+ */
+export function courseOf(node: Node | undefined): string {
+  return node?.course || UNKNOWN_COURSE;
+}
+
+/**
+ * Returns the courses of a set of subjects.
+ * @param nodes The subjects.
+ * @returns The distinct courses, sorted by name.
+ */
+export function courses(nodes: readonly Node[]): string[] {
+  return Array.from(new Set(nodes.map(courseOf))).sort();
+}
+
+/**
+ * Assigns every course a colour of its own.
+ * @param names The courses, in a stable order.
+ * @returns The colour of each course, by name.
+ */
+export function courseColors(names: string[]): Map<string, string> {
+  return new Map(
+    names.map((name, i) => [name, COURSE_PALETTE[i % COURSE_PALETTE.length]])
+  );
+}
+
+/**
+ * Whether subjects of a course are the only ones shown, or hidden.
+ */
+export type CourseRule = "include" | "exclude";
+
+/**
+ * Reads the course rules stored in the URL. Excluded courses start with a
+ * `-`, and names are escaped since some of them contain commas.
+ * @param values The stored rules.
+ * @returns The rule of each course, by name.
+ */
+export function parseCourseRules(values: string[]): Map<string, CourseRule> {
+  const rules = new Map<string, CourseRule>();
+  for (const value of values) {
+    if (value.startsWith("-")) {
+      rules.set(decodeURIComponent(value.slice(1)), "exclude");
+    } else if (value !== "") {
+      rules.set(decodeURIComponent(value), "include");
+    }
+  }
+  return rules;
+}
+
+/**
+ * Writes course rules in the form read by `parseCourseRules`.
+ * @param rules The rule of each course, by name.
+ * @returns The rules to store.
+ */
+export function formatCourseRules(rules: Map<string, CourseRule>): string[] {
+  return Array.from(rules).map(
+    ([name, rule]) =>
+      `${rule === "exclude" ? "-" : ""}${encodeURIComponent(name)}`
+  );
+}
+
+/**
+ * Keeps the subjects allowed by the course rules. When any course is
+ * included, subjects of other courses are dropped.
+ * @param data The subjects and their links.
+ * @param rules The rule of each course, by name.
+ * @returns The allowed subjects and the links between them.
+ */
+export function filterCourses(
+  data: GraphData,
+  rules: Map<string, CourseRule>
+): GraphData {
+  if (rules.size === 0) {
+    return data;
+  }
+  const including = Array.from(rules.values()).includes("include");
+  const nodes = data.nodes.filter((node) => {
+    const rule = rules.get(courseOf(node));
+    return including ? rule === "include" : rule !== "exclude";
+  });
+  const kept = new Set(nodes.map((node) => node.id));
+  const links = data.links.filter(
+    (link) => kept.has(link.source) && kept.has(link.target)
+  );
+  return { nodes, links };
+}
+
+/**
+ * Keeps only the links between subjects of different courses.
+ * @param data The subjects and their links.
+ * @returns The linked subjects and the links crossing courses.
+ */
+export function crossCourseLinks(data: GraphData): GraphData {
+  const courseById = new Map(
+    data.nodes.map((node) => [node.id, courseOf(node)])
+  );
+  const links = data.links.filter(
+    (link) => courseById.get(link.source) !== courseById.get(link.target)
+  );
+  const linked = new Set(links.flatMap((link) => [link.source, link.target]));
+  return { nodes: data.nodes.filter((node) => linked.has(node.id)), links };
+}
+
+/**
+ * A course in the course summary graph.
+ */
+export interface CourseNode extends Node {
+  /** The number of subjects in the course. */
+  subjects: number;
+}
+
+/**
+ * The requisites between two courses in the course summary graph.
+ */
+export interface CourseLink extends DirectedEdge {
+  /** The number of requisite links between subjects of the courses. */
+  count: number;
+}
+
+/**
+ * Collapses the subjects of every course into a single node.
+ *
+ * Course nodes get negative ids, so they are never mistaken for subjects.
+ * Antirequisites are left out, they are not a dependency.
+ * @param data The subjects and their links.
+ * @returns One node per course and one link per pair of dependent courses.
+ */
+export function courseSummary(data: GraphData): {
+  nodes: CourseNode[];
+  links: CourseLink[];
+} {
+  const graph = new Graph(data);
+  const names = courses(data.nodes);
+  const idOf = new Map(names.map((name, i) => [name, -(i + 1)]));
+  const courseId = (id: number) => idOf.get(courseOf(graph.node(id)))!;
+
+  const nodes: CourseNode[] = names.map((name) => ({
+    id: idOf.get(name)!,
+    label: name,
+    url: null,
+    course: name,
+    subjects: 0,
+  }));
+  data.nodes.forEach((node) => nodes[-courseId(node.id) - 1].subjects++);
+
+  const links = new Map<string, CourseLink>();
+  for (const node of data.nodes) {
+    for (const target of graph.children(node.id)) {
+      if (graph.node(target) === undefined) {
+        continue;
+      }
+      const source = courseId(node.id);
+      const other = courseId(target);
+      if (source === other) {
+        continue;
+      }
+      const key = `${source}->${other}`;
+      const link = links.get(key);
+      if (link) {
+        link.count++;
+      } else {
+        links.set(key, { source, target: other, count: 1 });
+      }
+    }
+  }
+  return { nodes, links: Array.from(links.values()) };
+}
@@ -0,0 +1,475 @@
+import { subjectMetrics } from "./analytics";
+import type { SubjectMetrics } from "./analytics";
+import { COMPACT_VERSION, expandGraph, expandStructure } from "./compact";
+import type { CompactMetadata, CompactStructure } from "./compact";
+import { courseColors, courses } from "./courses";
+import { subjectIndex } from "./fuzzySearch";
+import type { SearchEntry } from "./fuzzySearch";
+import { Graph } from "./graph";
+import { cycles, impliedLinks } from "./search";
+import type { ImpliedLink } from "./search";
+import type { DirectedEdge, EdgeKind, GraphData, Node } from "./types";
+import { validateGraph } from "./validate";
+import type { Issue } from "./validate";
+
+/**
+ * A dataset that cannot be read, with the reason.
+ */
+export class DatasetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DatasetError";
+  }
+}
+
+/**
+ * How far a dataset has downloaded.
+ */
+export interface LoadProgress {
+  /** The file being downloaded, the structure first. */
+  stage: "structure" | "metadata";
+  /** The bytes received so far. */
+  loaded: number;
+  /** The size of the file, `undefined` if the server did not say. */
+  total: number | undefined;
+}
+
+/**
+ * Callbacks notified while a dataset loads.
+ */
+export interface LoadHandlers {
+  progress: (progress: LoadProgress) => void;
+  /** Receives the subjects and links before their details have loaded. */
+  structure: (data: GraphData) => void;
+}
+
+/**
+ * A handbook dataset shipped with the app.
+ */
+export interface BundledDataset {
+  label: string;
+  load: (handlers: LoadHandlers) => Promise<GraphData>;
+}
+
+/**
+ * Downloads a JSON file, reporting the bytes received.
+ * @param url The url of the file.
+ * @param onProgress Receives the bytes received and the size of the file.
+ * @returns The parsed file.
+ * @throws {DatasetError} If the file cannot be downloaded or parsed.
+ */
+async function fetchJson(
+  url: string,
+  onProgress: (loaded: number, total: number | undefined) => void
+): Promise<unknown> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new DatasetError(
+      `Cannot load ${url}: ${response.status} ${response.statusText}`
+    );
+  }
+  // The length of a compressed response is not the length of its text
+  const length = Number(response.headers.get("Content-Length"));
+  const total =
+    length > 0 && !response.headers.get("Content-Encoding")
+      ? length
+      : undefined;
+
+  const decoder = new TextDecoder();
+  let text = "";
+  let loaded = 0;
+  const reader = response.body!.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    text += decoder.decode(value, { stream: true });
+    loaded += value.length;
+    onProgress(loaded, total);
+  }
+  text += decoder.decode();
+
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new DatasetError(`Invalid JSON in ${url}: ${error}`);
+  }
+}
+
+/**
+ * Checks that a compact file was written in the format the app reads.
+ */
+const checkVersion = (file: unknown, url: string) => {
+  const version = (file as { version?: unknown } | null)?.version;
+  if (version !== COMPACT_VERSION) {
+    throw new DatasetError(
+      `${url} has format version ${version}, expected ${COMPACT_VERSION}`
+    );
+  }
+};
+
+/**
+ * Loads a dataset written by `npm run compact-dataset`: the structure file
+ * first, then the metadata file.
+ * @param name The name of the dataset files.
+ * @param handlers The callbacks notified while the dataset loads.
+ * @returns The graph data.
+ */
+export async function loadCompactDataset(
+  name: string,
+  { progress, structure }: LoadHandlers
+): Promise<GraphData> {
+  const base = `${import.meta.env.BASE_URL}datasets/${name}`;
+
+  const structureUrl = `${base}.structure.json`;
+  const structureFile = await fetchJson(structureUrl, (loaded, total) =>
+    progress({ stage: "structure", loaded, total })
+  );
+  checkVersion(structureFile, structureUrl);
+  structure(expandStructure(structureFile as CompactStructure));
+
+  const metadataUrl = `${base}.metadata.json`;
+  progress({ stage: "metadata", loaded: 0, total: undefined });
+  const metadataFile = await fetchJson(metadataUrl, (loaded, total) =>
+    progress({ stage: "metadata", loaded, total })
+  );
+  checkVersion(metadataFile, metadataUrl);
+  return parseGraphData(
+    expandGraph(
+      structureFile as CompactStructure,
+      metadataFile as CompactMetadata
+    )
+  );
+}
+
+/**
+ * The handbook datasets shipped with the app, by the name used in the
+ * `dataset` URL parameter. Add a year by compacting its export and adding
+ * it here.
+ */
+export const BUNDLED_DATASETS: Record<string, BundledDataset> = {
+  uts: {
+    label: "UTS Handbook",
+    load: (handlers) => loadCompactDataset("uts", handlers),
+  },
+};
+
+export const DEFAULT_DATASET = "uts";
+
+/**
+ * A loaded dataset with everything derived from it once.
+ */
+export interface Dataset {
+  /** The bundled dataset name, or the names of the uploaded files. */
+  name: string;
+  /** Whether the subject details have loaded, not only the links. */
+  complete: boolean;
+  data: GraphData;
+  graph: Graph;
+  issues: Issue[];
+  cycles: number[][];
+  /** The prerequisite links the transitive reduction leaves out. */
+  implied: ImpliedLink[];
+  searchIndex: SearchEntry[];
+  metrics: Map<number, SubjectMetrics>;
+  courses: string[];
+  courseColors: Map<string, string>;
+}
+
+/**
+ * Indexes a dataset and computes what the views share.
+ * @param name The name of the dataset.
+ * @param data The subjects and their links.
+ * @param complete Whether the subject details have loaded.
+ * @returns The dataset.
+ */
+export function buildDataset(
+  name: string,
+  data: GraphData,
+  complete = true
+): Dataset {
+  const graph = new Graph(data);
+  const names = courses(graph.nodes);
+  return {
+    name,
+    complete,
+    data,
+    graph,
+    // Missing details are expected until they have loaded
+    issues: complete ? validateGraph(data) : [],
+    cycles: cycles(graph),
+    implied: impliedLinks(graph),
+    searchIndex: subjectIndex(graph.nodes),
+    metrics: subjectMetrics(graph),
+    courses: names,
+    courseColors: courseColors(names),
+  };
+}
+
+const EDGE_KINDS: EdgeKind[] = [
+  "prerequisite",
+  "alternative",
+  "corequisite",
+  "antirequisite",
+];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNullableString = (value: unknown) =>
+  value === null || typeof value === "string";
+
+/**
+ * Checks that a value has the shape of the graph data.
+ * @param value The parsed value.
+ * @returns The value as graph data.
+ * @throws {DatasetError} If a node or link does not have the expected shape.
+ */
+export function parseGraphData(value: unknown): GraphData {
+  if (!isObject(value) || !Array.isArray(value.nodes)) {
+    throw new DatasetError("Expected an object with a `nodes` array");
+  }
+  if (!Array.isArray(value.links)) {
+    throw new DatasetError("Expected an object with a `links` array");
+  }
+
+  value.nodes.forEach((node: unknown, i) => {
+    if (!isObject(node) || !Number.isInteger(node.id)) {
+      throw new DatasetError(`nodes[${i}] needs a numeric \`id\``);
+    }
+    for (const field of ["label", "url", "course"]) {
+      if (!isNullableString(node[field])) {
+        throw new DatasetError(`nodes[${i}].${field} must be a string or null`);
+      }
+    }
+    if (
+      node.creditPoints !== undefined &&
+      typeof node.creditPoints !== "number"
+    ) {
+      throw new DatasetError(`nodes[${i}].creditPoints must be a number`);
+    }
+  });
+
+  value.links.forEach((link: unknown, i) => {
+    if (
+      !isObject(link) ||
+      !Number.isInteger(link.source) ||
+      !Number.isInteger(link.target)
+    ) {
+      throw new DatasetError(
+        `links[${i}] needs a numeric \`source\` and \`target\``
+      );
+    }
+    if (
+      link.kind !== undefined &&
+      !EDGE_KINDS.includes(link.kind as EdgeKind)
+    ) {
+      throw new DatasetError(
+        `links[${i}].kind must be one of ${EDGE_KINDS.join(", ")}`
+      );
+    }
+  });
+
+  return value as unknown as GraphData;
+}
+
+/**
+ * Reads a dataset in the shape of `data.json`.
+ * @param text The JSON document.
+ * @returns The graph data.
+ */
+export function parseJsonDataset(text: string): GraphData {
+  try {
+    return parseGraphData(JSON.parse(text));
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      throw new DatasetError(`Invalid JSON: ${error.message}`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Splits CSV text into rows of fields, honouring quoted fields.
+ * @param text The CSV text.
+ * @returns The rows, without empty lines.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+  return rows.filter((fields) => fields.some((value) => value !== ""));
+}
+
+/**
+ * Reads the rows of a CSV table as records keyed by the header row.
+ */
+const csvRecords = (text: string, required: string[], file: string) => {
+  const [header = [], ...rows] = parseCsv(text);
+  const missing = required.filter((column) => !header.includes(column));
+  if (missing.length > 0) {
+    throw new DatasetError(`${file} is missing columns: ${missing.join(", ")}`);
+  }
+  return rows.map((fields) =>
+    Object.fromEntries(header.map((column, i) => [column, fields[i] ?? ""]))
+  );
+};
+
+// Empty CSV and GraphML fields stand for missing values
+const orNull = (value: string | undefined) => (value ? value : null);
+
+const toNumber = (value: string | undefined | null) =>
+  value ? Number(value) : NaN;
+
+/**
+ * Reads a dataset from a node table and an edge table, in the form written
+ * by the CSV export.
+ * @param nodesText The CSV with `id`, `label`, `course` and `url` columns.
+ * @param edgesText The CSV with `source`, `target` and `kind` columns.
+ * @returns The graph data.
+ */
+export function parseCsvDataset(
+  nodesText: string,
+  edgesText: string
+): GraphData {
+  const nodes = csvRecords(nodesText, ["id"], "The nodes table").map(
+    (record): Node => ({
+      id: toNumber(record.id),
+      label: orNull(record.label),
+      url: orNull(record.url),
+      course: orNull(record.course),
+    })
+  );
+  const links = csvRecords(
+    edgesText,
+    ["source", "target"],
+    "The edges table"
+  ).map((record) => {
+    const link: DirectedEdge = {
+      source: toNumber(record.source),
+      target: toNumber(record.target),
+    };
+    if (record.kind) {
+      link.kind = record.kind as EdgeKind;
+    }
+    return link;
+  });
+  return parseGraphData({ nodes, links });
+}
+
+/**
+ * Reads a dataset from a GraphML document, such as one saved by Gephi or by
+ * the GraphML export.
+ * @param text The GraphML document.
+ * @returns The graph data.
+ */
+export function parseGraphMLDataset(text: string): GraphData {
+  const document = new DOMParser().parseFromString(text, "application/xml");
+  if (document.querySelector("parsererror")) {
+    throw new DatasetError("Invalid GraphML: the XML cannot be parsed");
+  }
+
+  // Data elements refer to their keys by id, look them up by name
+  const keyNames = new Map<string, string>();
+  document.querySelectorAll("key").forEach((key) => {
+    keyNames.set(
+      key.getAttribute("id") ?? "",
+      key.getAttribute("attr.name") ?? ""
+    );
+  });
+  const values = (element: Element) => {
+    const result = new Map<string, string>();
+    element.querySelectorAll("data").forEach((data) => {
+      const key = data.getAttribute("key") ?? "";
+      result.set(keyNames.get(key) ?? key, data.textContent ?? "");
+    });
+    return result;
+  };
+
+  const nodes = Array.from(document.querySelectorAll("node")).map(
+    (element): Node => {
+      const data = values(element);
+      return {
+        id: toNumber(element.getAttribute("id")),
+        label: orNull(data.get("label")),
+        url: orNull(data.get("url")),
+        course: orNull(data.get("course")),
+      };
+    }
+  );
+  const links = Array.from(document.querySelectorAll("edge")).map((element) => {
+    const link: DirectedEdge = {
+      source: toNumber(element.getAttribute("source")),
+      target: toNumber(element.getAttribute("target")),
+    };
+    const kind = values(element).get("kind");
+    if (kind) {
+      link.kind = kind as EdgeKind;
+    }
+    return link;
+  });
+  return parseGraphData({ nodes, links });
+}
+
+/**
+ * Reads a dataset from files picked or dropped by the user: a JSON file,
+ * a GraphML file, or a node table and an edge table as CSV.
+ * @param files The files.
+ * @returns The graph data.
+ * @throws {DatasetError} If the files are not a supported dataset.
+ */
+export async function readDatasetFiles(files: File[]): Promise<GraphData> {
+  const extension = (file: File) =>
+    file.name.slice(file.name.lastIndexOf(".") + 1).toLowerCase();
+
+  if (files.length === 1 && extension(files[0]) === "json") {
+    return parseJsonDataset(await files[0].text());
+  }
+  if (files.length === 1 && ["graphml", "xml"].includes(extension(files[0]))) {
+    return parseGraphMLDataset(await files[0].text());
+  }
+  if (files.length === 2 && files.every((file) => extension(file) === "csv")) {
+    const texts = await Promise.all(files.map((file) => file.text()));
+    // The edge table is the one with a source column
+    const [first] = parseCsv(texts[0]);
+    const [nodesText, edgesText] = first?.includes("source")
+      ? [texts[1], texts[0]]
+      : texts;
+    return parseCsvDataset(nodesText, edgesText);
+  }
+  throw new DatasetError(
+    "Expected a JSON file, a GraphML file, or a nodes and an edges CSV file"
+  );
+}
@@ -0,0 +1,284 @@
+import { Graph } from "./graph";
+import { ancestors } from "./search";
+import type { DirectedEdge, GraphData, Node } from "./types";
+import { edgeKey } from "./validate";
+
+/**
+ * A difference between two versions of a dataset.
+ * * `"added-subject"`, `"removed-subject"`: `node` is only in one version.
+ * * `"changed-subject"`: `field` of subject `id` changed.
+ * * `"added-link"`, `"removed-link"`: `edge` is only in one version.
+ * * `"changed-ancestors"`: the subjects requiring subject `id`, directly or
+ *   not, changed as a result of the link changes.
+ */
+export type Change =
+  | { type: "added-subject"; node: Node }
+  | { type: "removed-subject"; node: Node }
+  | {
+      type: "changed-subject";
+      id: number;
+      field: ChangedField;
+      before: string | null;
+      after: string | null;
+    }
+  | { type: "added-link"; edge: DirectedEdge }
+  | { type: "removed-link"; edge: DirectedEdge }
+  | {
+      type: "changed-ancestors";
+      id: number;
+      added: number[];
+      removed: number[];
+    };
+
+export type ChangeType = Change["type"];
+
+export type ChangedField = "label" | "url" | "course";
+
+const FIELDS: ChangedField[] = ["label", "course", "url"];
+
+const byId = (a: number, b: number) => a - b;
+
+/**
+ * Compares two versions of a dataset.
+ * @param before The earlier version.
+ * @param after The later version.
+ * @returns The changes, grouped by type.
+ */
+export function diffDatasets(before: GraphData, after: GraphData): Change[] {
+  const changes: Change[] = [];
+
+  const beforeNodes = new Map(before.nodes.map((node) => [node.id, node]));
+  const afterNodes = new Map(after.nodes.map((node) => [node.id, node]));
+  for (const node of after.nodes) {
+    if (!beforeNodes.has(node.id)) {
+      changes.push({ type: "added-subject", node });
+    }
+  }
+  for (const node of before.nodes) {
+    if (!afterNodes.has(node.id)) {
+      changes.push({ type: "removed-subject", node });
+    }
+  }
+  for (const node of after.nodes) {
+    const previous = beforeNodes.get(node.id);
+    for (const field of FIELDS) {
+      if (previous && previous[field] !== node[field]) {
+        changes.push({
+          type: "changed-subject",
+          id: node.id,
+          field,
+          before: previous[field],
+          after: node[field],
+        });
+      }
+    }
+  }
+
+  const beforeLinks = new Set(before.links.map(edgeKey));
+  const afterLinks = new Set(after.links.map(edgeKey));
+  const addedLinks = after.links.filter(
+    (edge) => !beforeLinks.has(edgeKey(edge))
+  );
+  const removedLinks = before.links.filter(
+    (edge) => !afterLinks.has(edgeKey(edge))
+  );
+  addedLinks.forEach((edge) => changes.push({ type: "added-link", edge }));
+  removedLinks.forEach((edge) => changes.push({ type: "removed-link", edge }));
+
+  // Without link changes no subject can gain or lose a dependent
+  if (addedLinks.length > 0 || removedLinks.length > 0) {
+    const beforeGraph = new Graph(before);
+    const afterGraph = new Graph(after);
+    for (const node of after.nodes) {
+      if (!beforeNodes.has(node.id)) {
+        continue;
+      }
+      const was = new Set(ancestors(node.id, beforeGraph));
+      const is = new Set(ancestors(node.id, afterGraph));
+      const added = [...is].filter((id) => !was.has(id)).sort(byId);
+      const removed = [...was].filter((id) => !is.has(id)).sort(byId);
+      if (added.length > 0 || removed.length > 0) {
+        changes.push({
+          type: "changed-ancestors",
+          id: node.id,
+          added,
+          removed,
+        });
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Counts the changes of each type.
+ * @param changes The changes.
+ * @returns The number of changes by type, leaving out types with none.
+ */
+export function countChanges(
+  changes: Change[]
+): Partial<Record<ChangeType, number>> {
+  const counts: Partial<Record<ChangeType, number>> = {};
+  for (const change of changes) {
+    counts[change.type] = (counts[change.type] ?? 0) + 1;
+  }
+  return counts;
+}
+
+const nodeName = (node: Node) =>
+  node.label ? `${node.id} ${node.label}` : node.id.toString();
+
+const listIds = (ids: number[]) =>
+  ids.length > 5
+    ? `${ids.slice(0, 5).join(", ")} and ${ids.length - 5} more`
+    : ids.join(", ");
+
+/**
+ * Describes a change in a single line.
+ * @param change The change.
+ * @returns The description.
+ */
+export function describeChange(change: Change): string {
+  switch (change.type) {
+    case "added-subject":
+      return `added ${nodeName(change.node)}`;
+    case "removed-subject":
+      return `removed ${nodeName(change.node)}`;
+    case "changed-subject":
+      return `${change.id} ${change.field}: ${change.before ?? "(none)"} -> ${
+        change.after ?? "(none)"
+      }`;
+    case "added-link":
+    case "removed-link":
+      return `${change.edge.source} -> ${change.edge.target} (${
+        change.edge.kind ?? "prerequisite"
+      })`;
+    case "changed-ancestors":
+      return [
+        `${change.id}`,
+        ...(change.added.length > 0
+          ? [`now required by ${listIds(change.added)}`]
+          : []),
+        ...(change.removed.length > 0
+          ? [`no longer required by ${listIds(change.removed)}`]
+          : []),
+      ].join(" ");
+  }
+}
+
+/**
+ * Summarises changes for people, with a few examples of each type.
+ * @param changes The changes.
+ * @param examples The number of examples to list per type.
+ * @returns The summary, one line per type and example.
+ */
+export function summariseChanges(changes: Change[], examples = 10): string {
+  if (changes.length === 0) {
+    return "No changes found.";
+  }
+  const lines: string[] = [];
+  const counts = countChanges(changes);
+  for (const [type, count] of Object.entries(counts) as [
+    ChangeType,
+    number
+  ][]) {
+    lines.push(`${count} ${type}`);
+    changes
+      .filter((change) => change.type === type)
+      .slice(0, examples)
+      .forEach((change) => lines.push(`  ${describeChange(change)}`));
+    if (count > examples) {
+      lines.push(`  ... and ${count - examples} more`);
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * How an element of the union graph changed.
+ * * `"affected"`: the subject itself is unchanged but its dependents changed.
+ */
+export type ChangeStatus =
+  | "added"
+  | "removed"
+  | "changed"
+  | "affected"
+  | "unchanged";
+
+/**
+ * Both versions of a dataset in one graph, with how each element changed.
+ */
+export interface UnionGraph {
+  data: GraphData;
+  /** The status of each subject, by id. */
+  nodes: Map<number, ChangeStatus>;
+  /** The status of each link, by `edgeKey`. */
+  links: Map<string, ChangeStatus>;
+}
+
+/**
+ * Merges two versions of a dataset. Subjects present in both take their
+ * details from the later version.
+ * @param before The earlier version.
+ * @param after The later version.
+ * @param changes The changes between them, from `diffDatasets`.
+ * @returns The union graph.
+ */
+export function unionGraph(
+  before: GraphData,
+  after: GraphData,
+  changes: Change[]
+): UnionGraph {
+  const nodes = new Map<number, ChangeStatus>();
+  const links = new Map<string, ChangeStatus>();
+  const removedNodes: Node[] = [];
+  const removedLinks: DirectedEdge[] = [];
+  for (const change of changes) {
+    switch (change.type) {
+      case "added-subject":
+        nodes.set(change.node.id, "added");
+        break;
+      case "removed-subject":
+        nodes.set(change.node.id, "removed");
+        removedNodes.push(change.node);
+        break;
+      case "changed-subject":
+        nodes.set(change.id, "changed");
+        break;
+      case "added-link":
+        links.set(edgeKey(change.edge), "added");
+        break;
+      case "removed-link":
+        links.set(edgeKey(change.edge), "removed");
+        removedLinks.push(change.edge);
+        break;
+      case "changed-ancestors":
+        if (!nodes.has(change.id)) {
+          nodes.set(change.id, "affected");
+        }
+        break;
+    }
+  }
+  return {
+    data: {
+      nodes: [...after.nodes, ...removedNodes],
+      links: [...after.links, ...removedLinks],
+    },
+    nodes,
+    links,
+  };
+}
+
+/**
+ * Returns how a link of the union graph changed.
+ * @param union The union graph.
+ * @param edge The link.
+ * @returns The status of the link.
+ */
+export function linkStatus(
+  union: UnionGraph,
+  edge: DirectedEdge
+): ChangeStatus {
+  return union.links.get(edgeKey(edge)) ?? "unchanged";
+}
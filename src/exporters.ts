@@ -0,0 +1,283 @@
+import { Graph } from "./graph";
+import { impliedLinks } from "./search";
+import type { DirectedEdge, GraphData, Node } from "./types";
+
+/**
+ * The text formats the visible graph can be exported to.
+ */
+export type ExportFormat =
+  | "graphml"
+  | "dot"
+  | "csvNodes"
+  | "csvEdges"
+  | "csvRedundant"
+  | "json"
+  | "mermaid";
+
+interface Exporter {
+  label: string;
+  /** The file name suffix, including the extension. */
+  suffix: string;
+  type: string;
+  serialize: (data: GraphData) => string;
+}
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const escapeDot = (text: string) =>
+  text.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+
+/**
+ * Quotes a CSV field when it holds a separator, quote or line break.
+ */
+const csvField = (value: string | number | null | undefined) => {
+  const text = value?.toString() ?? "";
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const kindOf = (edge: DirectedEdge) => edge.kind ?? "prerequisite";
+
+/**
+ * Serializes a graph to GraphML, readable by Gephi and yEd.
+ * @param data The nodes and links to export.
+ * @returns The GraphML document.
+ */
+export function toGraphML({ nodes, links }: GraphData): string {
+  const data = (key: string, value: string | null) =>
+    value === null
+      ? []
+      : [`      <data key="${key}">${escapeXml(value)}</data>`];
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<graphml xmlns="http://graphml.graphdrawing.org/xmlns">`,
+    `  <key id="label" for="node" attr.name="label" attr.type="string"/>`,
+    `  <key id="course" for="node" attr.name="course" attr.type="string"/>`,
+    `  <key id="url" for="node" attr.name="url" attr.type="string"/>`,
+    `  <key id="kind" for="edge" attr.name="kind" attr.type="string"/>`,
+    `  <graph id="subjects" edgedefault="directed">`,
+    ...nodes.flatMap((node) => [
+      `    <node id="${node.id}">`,
+      ...data("label", node.label),
+      ...data("course", node.course),
+      ...data("url", node.url),
+      `    </node>`,
+    ]),
+    ...links.flatMap((link) => [
+      `    <edge source="${link.source}" target="${link.target}">`,
+      ...data("kind", kindOf(link)),
+      `    </edge>`,
+    ]),
+    `  </graph>`,
+    `</graphml>`,
+  ].join("\n");
+}
+
+/**
+ * Serializes a graph to the Graphviz DOT language.
+ * @param data The nodes and links to export.
+ * @returns The DOT digraph.
+ */
+export function toDot({ nodes, links }: GraphData): string {
+  const attributes = (values: Record<string, string | null>) =>
+    Object.entries(values)
+      .filter(([, value]) => value !== null)
+      .map(([key, value]) => `${key}="${escapeDot(value!)}"`)
+      .join(", ");
+  return [
+    "digraph subjects {",
+    ...nodes.map(
+      (node) =>
+        `  "${node.id}" [${attributes({
+          label: node.label ?? node.id.toString(),
+          course: node.course,
+          URL: node.url,
+        })}];`
+    ),
+    ...links.map(
+      (link) =>
+        `  "${link.source}" -> "${link.target}" [kind="${kindOf(link)}"];`
+    ),
+    "}",
+  ].join("\n");
+}
+
+/**
+ * Serializes the nodes of a graph to a CSV table.
+ * @param data The nodes and links to export.
+ * @returns One row per node, with a header row.
+ */
+export function toCsvNodes({ nodes }: GraphData): string {
+  return [
+    "id,label,course,url",
+    ...nodes.map((node) =>
+      [node.id, node.label, node.course, node.url].map(csvField).join(",")
+    ),
+  ].join("\n");
+}
+
+/**
+ * Serializes the links of a graph to a CSV table.
+ * @param data The nodes and links to export.
+ * @returns One row per link, with a header row.
+ */
+export function toCsvEdges({ links }: GraphData): string {
+  return [
+    "source,target,kind",
+    ...links.map((link) =>
+      [link.source, link.target, kindOf(link)].map(csvField).join(",")
+    ),
+  ].join("\n");
+}
+
+/**
+ * Lists the prerequisite links of a graph that another prerequisite of the
+ * same subject already implies, as a CSV table.
+ * @param data The nodes and links to export.
+ * @returns One row per redundant link, with the prerequisite implying it and
+ * a header row.
+ */
+export function toCsvRedundant(data: GraphData): string {
+  const graph = new Graph(data);
+  const label = (id: number) => graph.node(id)?.label;
+  return [
+    "source,source_label,target,target_label,via,via_label",
+    ...impliedLinks(graph).map(({ edge, via }) =>
+      [
+        edge.source,
+        label(edge.source),
+        edge.target,
+        label(edge.target),
+        via,
+        label(via),
+      ]
+        .map(csvField)
+        .join(",")
+    ),
+  ].join("\n");
+}
+
+/**
+ * Serializes a graph to JSON in the shape of `data.json`.
+ * @param data The nodes and links to export.
+ * @returns The JSON document.
+ */
+export function toJson({ nodes, links }: GraphData): string {
+  // Leave out the layout state the renderers add to the nodes
+  const exported: GraphData = {
+    // Absent optional fields stay absent, as `JSON.stringify` skips them
+    nodes: nodes.map(
+      ({ id, label, url, course, creditPoints, requisites }: Node) => ({
+        id,
+        label,
+        url,
+        course,
+        creditPoints,
+        requisites,
+      })
+    ),
+    links: links.map(({ source, target, kind }) =>
+      kind === undefined ? { source, target } : { source, target, kind }
+    ),
+  };
+  return JSON.stringify(exported, null, 4);
+}
+
+// Mermaid arrows for each kind of edge
+const MERMAID_ARROWS: Record<ReturnType<typeof kindOf>, string> = {
+  prerequisite: "-->",
+  alternative: "-.->",
+  corequisite: "==>",
+  antirequisite: "--x",
+};
+
+/**
+ * Serializes a graph to a Mermaid flowchart, drawn top-down.
+ * @param data The nodes and links to export.
+ * @returns The Mermaid definition.
+ */
+export function toMermaid({ nodes, links }: GraphData): string {
+  const label = (node: Node) =>
+    (node.label ? `${node.id}: ${node.label}` : node.id.toString()).replace(
+      /"/g,
+      "#quot;"
+    );
+  return [
+    "flowchart TD",
+    ...nodes.map((node) => `  s${node.id}["${label(node)}"]`),
+    ...links.map(
+      (link) =>
+        `  s${link.source} ${MERMAID_ARROWS[kindOf(link)]} s${link.target}`
+    ),
+    ...nodes
+      .filter((node) => node.url)
+      .map((node) => `  click s${node.id} href "${node.url}" _blank`),
+  ].join("\n");
+}
+
+export const EXPORTERS: Record<ExportFormat, Exporter> = {
+  graphml: {
+    label: "GraphML",
+    suffix: ".graphml",
+    type: "application/graphml+xml",
+    serialize: toGraphML,
+  },
+  dot: {
+    label: "Graphviz DOT",
+    suffix: ".dot",
+    type: "text/vnd.graphviz",
+    serialize: toDot,
+  },
+  csvNodes: {
+    label: "CSV nodes",
+    suffix: "-nodes.csv",
+    type: "text/csv",
+    serialize: toCsvNodes,
+  },
+  csvEdges: {
+    label: "CSV edges",
+    suffix: "-edges.csv",
+    type: "text/csv",
+    serialize: toCsvEdges,
+  },
+  csvRedundant: {
+    label: "CSV redundant requisites",
+    suffix: "-redundant.csv",
+    type: "text/csv",
+    serialize: toCsvRedundant,
+  },
+  json: {
+    label: "JSON",
+    suffix: ".json",
+    type: "application/json",
+    serialize: toJson,
+  },
+  mermaid: {
+    label: "Mermaid",
+    suffix: ".mmd",
+    type: "text/plain",
+    serialize: toMermaid,
+  },
+};
+
+/**
+ * Saves a file through the browser.
+ * @param name The file name.
+ * @param contents The file contents, or the url of the data.
+ */
+export function download(name: string, contents: Blob | string) {
+  const url =
+    typeof contents === "string" ? contents : URL.createObjectURL(contents);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  if (typeof contents !== "string") {
+    // Release the file once the browser has started saving it
+    setTimeout(() => URL.revokeObjectURL(url));
+  }
+}
@@ -0,0 +1,360 @@
+import { courseOf } from "./courses";
+import type { Graph } from "./graph";
+import {
+  ancestors,
+  children,
+  cousins,
+  descendants,
+  dijkstraShortestPath,
+  parents,
+  related,
+  siblings,
+} from "./search";
+import { handbookCode } from "./subjects";
+import type { Node } from "./types";
+
+/**
+ * A query that cannot be read, with where reading stopped.
+ */
+export class ExpressionError extends Error {
+  /** The offset of the offending character in the query. */
+  public readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = "ExpressionError";
+    this.position = position;
+  }
+}
+
+/**
+ * The functions of the query language, by name. Each returns the relatives
+ * of one subject, the traversals up to an optional number of hops.
+ */
+const FUNCTIONS = {
+  ancestors: (id: number, graph: Graph, maxDepth?: number) =>
+    ancestors(id, graph, maxDepth),
+  descendants: (id: number, graph: Graph, maxDepth?: number) =>
+    descendants(id, graph, maxDepth),
+  parents: (id: number, graph: Graph) => parents(id, graph),
+  children: (id: number, graph: Graph) => children(id, graph),
+  siblings: (id: number, graph: Graph) => siblings(id, graph),
+  cousins: (id: number, graph: Graph) => cousins(id, graph),
+  related: (id: number, graph: Graph) => related(id, graph),
+};
+
+type FunctionName = keyof typeof FUNCTIONS;
+
+// The functions that take a number of hops after their subjects
+const DEPTH_FUNCTIONS: FunctionName[] = ["ancestors", "descendants"];
+
+/**
+ * The subject fields filters can test, by name.
+ */
+const FIELDS = {
+  course: (node: Node) => courseOf(node),
+  label: (node: Node) => node.label ?? "",
+  code: (node: Node) => handbookCode(node) ?? node.id.toString(),
+};
+
+type Field = keyof typeof FIELDS;
+
+/**
+ * A parsed query.
+ * * `subject`: a subject by id.
+ * * `all`: every subject, written `*` or `all`.
+ * * `filter`: the subjects whose field equals (`:`) or contains (`~`) a
+ *   value, ignoring case, e.g. `course:Engineering` or `label~"data"`.
+ * * `call`: the relatives of the subjects of a query, e.g. `ancestors(48024)`
+ *   or `descendants(48024, 2)` for two hops.
+ * * `path`: the subjects on the shortest paths from the subjects of one query
+ *   down to their prerequisites among those of another, written `path(a, b)`.
+ * * `binary`: the union (`|`), intersection (`&`) or difference (`-`) of two
+ *   queries. Intersections are taken first, the rest from left to right.
+ */
+export type Expression =
+  | { type: "subject"; id: number }
+  | { type: "all" }
+  | { type: "filter"; field: Field; operator: ":" | "~"; value: string }
+  | {
+      type: "call";
+      name: FunctionName;
+      argument: Expression;
+      maxDepth?: number;
+    }
+  | { type: "path"; source: Expression; target: Expression }
+  | {
+      type: "binary";
+      operator: "|" | "&" | "-";
+      left: Expression;
+      right: Expression;
+    };
+
+interface Token {
+  type: "number" | "word" | "string" | "symbol" | "end";
+  text: string;
+  position: number;
+}
+
+const SYMBOLS = "()|&-,:~*";
+
+/**
+ * Splits a query into numbers, words, quoted strings and symbols.
+ */
+const tokenize = (text: string) => {
+  const tokens: Token[] = [];
+  const run = (start: number, pattern: RegExp) => {
+    let end = start;
+    while (end < text.length && pattern.test(text[end])) {
+      end++;
+    }
+    return end;
+  };
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    const start = i;
+    if (/\s/.test(char)) {
+      i++;
+    } else if (SYMBOLS.includes(char)) {
+      tokens.push({ type: "symbol", text: char, position: i++ });
+    } else if (/\d/.test(char)) {
+      i = run(i, /\d/);
+      tokens.push({
+        type: "number",
+        text: text.slice(start, i),
+        position: start,
+      });
+    } else if (/\w/.test(char)) {
+      i = run(i, /\w/);
+      tokens.push({
+        type: "word",
+        text: text.slice(start, i),
+        position: start,
+      });
+    } else if (char === '"') {
+      let value = "";
+      for (i++; text[i] !== '"'; i++) {
+        // A backslash keeps the next character, quotes included
+        if (text[i] === "\\") {
+          i++;
+        }
+        if (i >= text.length) {
+          throw new ExpressionError("Unclosed quote", start);
+        }
+        value += text[i];
+      }
+      i++;
+      tokens.push({ type: "string", text: value, position: start });
+    } else {
+      throw new ExpressionError(`Unexpected "${char}"`, i);
+    }
+  }
+  tokens.push({ type: "end", text: "", position: text.length });
+  return tokens;
+};
+
+/**
+ * Describes a token for error messages.
+ */
+const describe = (token: Token) =>
+  token.type === "end" ? "the end of the query" : `"${token.text}"`;
+
+/**
+ * Reads a query.
+ * @param text The query, e.g. `ancestors(48024) & course:Engineering -
+ * ancestors(31251)`.
+ * @returns The parsed query.
+ * @throws {ExpressionError} If the query is not valid, with the position of
+ * the first mistake.
+ */
+export function parseExpression(text: string): Expression {
+  const tokens = tokenize(text);
+  let index = 0;
+  const peek = () => tokens[index];
+  const fail = (expected: string): never => {
+    const token = peek();
+    throw new ExpressionError(
+      `Expected ${expected}, found ${describe(token)}`,
+      token.position
+    );
+  };
+  const accept = (symbol: string) => {
+    const token = peek();
+    if (token.type === "symbol" && token.text === symbol) {
+      index++;
+      return true;
+    }
+    return false;
+  };
+  const expect = (symbol: string) => {
+    if (!accept(symbol)) {
+      fail(`"${symbol}"`);
+    }
+  };
+
+  // Unions and differences, from left to right
+  const union = (): Expression => {
+    let left = intersection();
+    for (;;) {
+      const operator = accept("|") ? "|" : accept("-") ? "-" : undefined;
+      if (!operator) {
+        return left;
+      }
+      left = { type: "binary", operator, left, right: intersection() };
+    }
+  };
+
+  const intersection = (): Expression => {
+    let left = operand();
+    while (accept("&")) {
+      left = { type: "binary", operator: "&", left, right: operand() };
+    }
+    return left;
+  };
+
+  const value = () => {
+    const token = peek();
+    if (token.type === "end" || token.type === "symbol") {
+      return fail("a value");
+    }
+    index++;
+    return token.text;
+  };
+
+  const operand = (): Expression => {
+    const token = peek();
+    if (accept("(")) {
+      const inner = union();
+      expect(")");
+      return inner;
+    }
+    if (accept("*")) {
+      return { type: "all" };
+    }
+    if (token.type === "number") {
+      index++;
+      return { type: "subject", id: Number(token.text) };
+    }
+    if (token.type !== "word") {
+      return fail("a subject, filter or function");
+    }
+
+    index++;
+    const name = token.text.toLowerCase();
+    if (name === "all") {
+      return { type: "all" };
+    }
+    // Only the own keys, not those of every object such as `constructor`
+    if (Object.keys(FIELDS).includes(name)) {
+      const operator = accept(":")
+        ? ":"
+        : accept("~")
+        ? "~"
+        : fail('":" or "~"');
+      return { type: "filter", field: name as Field, operator, value: value() };
+    }
+    if (name === "path") {
+      expect("(");
+      const source = union();
+      expect(",");
+      const target = union();
+      expect(")");
+      return { type: "path", source, target };
+    }
+    if (!Object.keys(FUNCTIONS).includes(name)) {
+      throw new ExpressionError(
+        `Unknown function "${token.text}"`,
+        token.position
+      );
+    }
+
+    expect("(");
+    const argument = union();
+    let maxDepth: number | undefined;
+    if (DEPTH_FUNCTIONS.includes(name as FunctionName) && accept(",")) {
+      const depth = peek();
+      if (depth.type !== "number") {
+        fail("a number of hops");
+      }
+      index++;
+      maxDepth = Number(depth.text);
+    }
+    expect(")");
+    return { type: "call", name: name as FunctionName, argument, maxDepth };
+  };
+
+  if (peek().type === "end") {
+    fail("a query");
+  }
+  const expression = union();
+  if (peek().type !== "end") {
+    fail("an operator");
+  }
+  return expression;
+}
+
+/**
+ * Finds the subjects a query describes.
+ * @param expression The parsed query.
+ * @param graph The indexed graph.
+ * @returns The ids of the subjects, in no particular order.
+ */
+export function evaluateExpression(
+  expression: Expression,
+  graph: Graph
+): number[] {
+  const evaluate = (expression: Expression): Set<number> => {
+    switch (expression.type) {
+      case "subject":
+        return new Set(graph.node(expression.id) ? [expression.id] : []);
+      case "all":
+        return new Set(graph.nodes.map((node) => node.id));
+      case "filter": {
+        const { field, operator } = expression;
+        const value = expression.value.toLowerCase();
+        const matches = (node: Node) => {
+          const text = FIELDS[field](node).toLowerCase();
+          return operator === ":" ? text === value : text.includes(value);
+        };
+        return new Set(graph.nodes.filter(matches).map((node) => node.id));
+      }
+      case "call": {
+        const result = new Set<number>();
+        for (const id of evaluate(expression.argument)) {
+          FUNCTIONS[expression.name](id, graph, expression.maxDepth).forEach(
+            (vertex) => result.add(vertex)
+          );
+        }
+        return result;
+      }
+      case "path": {
+        const result = new Set<number>();
+        const targets = evaluate(expression.target);
+        for (const source of evaluate(expression.source)) {
+          for (const target of targets) {
+            dijkstraShortestPath(source, target, graph).forEach((vertex) =>
+              result.add(vertex)
+            );
+          }
+        }
+        return result;
+      }
+      case "binary": {
+        const left = evaluate(expression.left);
+        const right = evaluate(expression.right);
+        switch (expression.operator) {
+          case "|":
+            right.forEach((id) => left.add(id));
+            return left;
+          case "&":
+            return new Set([...left].filter((id) => right.has(id)));
+          case "-":
+            return new Set([...left].filter((id) => !right.has(id)));
+        }
+      }
+    }
+  };
+  return Array.from(evaluate(expression));
+}
@@ -0,0 +1,112 @@
+import { handbookCode } from "./subjects";
+import type { Node } from "./types";
+
+/**
+ * A subject matching a search query.
+ */
+export interface SubjectMatch {
+  node: Node;
+  score: number;
+}
+
+/**
+ * A subject with the lowercased fields that can be searched.
+ */
+export interface SearchEntry {
+  node: Node;
+  fields: string[];
+}
+
+/**
+ * Scores how well `query` matches `text`, both already lowercased.
+ * Exact and prefix matches rank above substrings, which rank above
+ * fuzzy subsequence matches.
+ * @param query The search query.
+ * @param text The text to search in.
+ * @returns The score of the match, `0` if `text` does not match.
+ */
+export function fuzzyScore(query: string, text: string): number {
+  if (query.length === 0 || text.length === 0) {
+    return 0;
+  }
+  if (text === query) {
+    return 1000;
+  }
+  if (text.startsWith(query)) {
+    return 800 - text.length;
+  }
+  const index = text.indexOf(query);
+  if (index !== -1) {
+    // Prefer matches at the start of a word
+    const wordStart = text[index - 1] === " " ? 100 : 0;
+    return 500 + wordStart - index;
+  }
+
+  // Every character of the query has to appear in order
+  let score = 0;
+  let streak = 0;
+  let position = 0;
+  for (const char of query) {
+    const next = text.indexOf(char, position);
+    if (next === -1) {
+      return 0;
+    }
+    streak = next === position ? streak + 1 : 0;
+    score += 1 + streak * 2 + (next === 0 || text[next - 1] === " " ? 3 : 0);
+    position = next + 1;
+  }
+  return Math.min(score, 400);
+}
+
+/**
+ * Builds the entries searched by `searchSubjects`.
+ * @param nodes The subjects to search.
+ * @returns The searchable entries.
+ */
+export function subjectIndex(nodes: readonly Node[]): SearchEntry[] {
+  return nodes.map((node) => ({
+    node,
+    fields: [
+      node.id.toString(),
+      handbookCode(node) ?? "",
+      node.label?.toLowerCase() ?? "",
+    ],
+  }));
+}
+
+/**
+ * Finds the subjects whose label, id or handbook code match a query.
+ * @param query The search query.
+ * @param index The entries built by `subjectIndex`.
+ * @param limit The maximum number of matches to return.
+ * @returns The best matches, best first.
+ */
+export function searchSubjects(
+  query: string,
+  index: SearchEntry[],
+  limit = 10
+): SubjectMatch[] {
+  const normalised = query.trim().toLowerCase();
+  if (normalised.length === 0) {
+    return [];
+  }
+
+  const matches: SubjectMatch[] = [];
+  for (const { node, fields } of index) {
+    const score = Math.max(
+      ...fields.map((field) => fuzzyScore(normalised, field))
+    );
+    if (score > 0) {
+      matches.push({ node, score });
+    }
+  }
+
+  return matches
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        (a.node.label ?? "").localeCompare(b.node.label ?? "") ||
+        a.node.id - b.node.id
+    )
+    .slice(0, limit);
+}
@@ -0,0 +1,157 @@
+import type { DirectedEdge, GraphData, Node } from "./types";
+
+const EMPTY: readonly never[] = [];
+
+/**
+ * A directed graph indexed for constant time adjacency and node lookups.
+ * Links lead from a subject to its prerequisites, so the children of a
+ * subject are its prerequisites and its parents the subjects requiring it.
+ *
+ * The indexes are built once from the given data, so the search functions
+ * never have to scan the full edge list. Antirequisite edges are kept in
+ * `links` but are not followed by `parents` and `children`.
+ */
+export class Graph {
+  public readonly nodes: readonly Node[];
+  public readonly links: readonly DirectedEdge[];
+  private readonly _nodesById = new Map<number, Node>();
+  private readonly _children = new Map<number, number[]>();
+  private readonly _parents = new Map<number, number[]>();
+  private readonly _incoming = new Map<number, DirectedEdge[]>();
+  private readonly _outgoing = new Map<number, DirectedEdge[]>();
+
+  constructor(data: GraphData) {
+    this.nodes = data.nodes;
+    // Copy the links, the renderer replaces `source`/`target` with node
+    // objects on the arrays it is given.
+    this.links = data.links.map(copyEdge);
+
+    for (const node of this.nodes) {
+      this._nodesById.set(node.id, node);
+    }
+    for (const edge of this.links) {
+      append(this._outgoing, edge.source, edge);
+      append(this._incoming, edge.target, edge);
+      if (edge.kind !== "antirequisite") {
+        addUnique(this._children, edge.source, edge.target);
+        addUnique(this._parents, edge.target, edge.source);
+      }
+    }
+  }
+
+  /**
+   * Returns the node with the given id.
+   * @param id The id of the node.
+   * @returns The node, or `undefined` if the graph has no node with that id.
+   */
+  public node(id: number): Node | undefined {
+    return this._nodesById.get(id);
+  }
+
+  /**
+   * Returns the unique sources of the edges leading to a vertex.
+   * @param id The id of the vertex.
+   * @returns The ids of the parents of the vertex.
+   */
+  public parents(id: number): readonly number[] {
+    return this._parents.get(id) ?? EMPTY;
+  }
+
+  /**
+   * Returns the unique targets of the edges leading from a vertex.
+   * @param id The id of the vertex.
+   * @returns The ids of the children of the vertex.
+   */
+  public children(id: number): readonly number[] {
+    return this._children.get(id) ?? EMPTY;
+  }
+
+  /**
+   * Returns every edge, of any kind, leading to a vertex.
+   * @param id The id of the vertex.
+   * @returns The incoming edges of the vertex.
+   */
+  public incoming(id: number): readonly DirectedEdge[] {
+    return this._incoming.get(id) ?? EMPTY;
+  }
+
+  /**
+   * Returns every edge, of any kind, leading from a vertex.
+   * @param id The id of the vertex.
+   * @returns The outgoing edges of the vertex.
+   */
+  public outgoing(id: number): readonly DirectedEdge[] {
+    return this._outgoing.get(id) ?? EMPTY;
+  }
+
+  /**
+   * Returns every vertex that is the endpoint of at least one edge.
+   * @returns The ids of the vertices.
+   */
+  public vertices(): number[] {
+    return Array.from(
+      new Set([...this._children.keys(), ...this._parents.keys()])
+    );
+  }
+
+  /**
+   * Returns the nodes with the given ids and the edges between them.
+   * @param ids The ids of the vertices to keep.
+   * @returns Fresh node and link arrays, safe to hand to a renderer.
+   */
+  public subgraph(ids: Iterable<number>): GraphData {
+    const keep = new Set(ids);
+    const nodes = this.nodes.filter((node) => keep.has(node.id));
+    const links: DirectedEdge[] = [];
+    for (const source of keep) {
+      for (const edge of this.outgoing(source)) {
+        if (keep.has(edge.target)) {
+          links.push(copyEdge(edge));
+        }
+      }
+    }
+    return { nodes, links };
+  }
+
+  /**
+   * Returns the whole graph as fresh node and link arrays.
+   * @returns A copy of the data the graph was built from.
+   */
+  public toData(): GraphData {
+    return {
+      nodes: [...this.nodes],
+      links: this.links.map(copyEdge),
+    };
+  }
+}
+
+/**
+ * Copy an edge, leaving out the `kind` when it is absent.
+ */
+function copyEdge({ source, target, kind }: DirectedEdge): DirectedEdge {
+  return kind === undefined ? { source, target } : { source, target, kind };
+}
+
+/**
+ * Append `value` to the list stored under `key`.
+ */
+function append<T>(index: Map<number, T[]>, key: number, value: T) {
+  const values = index.get(key);
+  if (values === undefined) {
+    index.set(key, [value]);
+  } else {
+    values.push(value);
+  }
+}
+
+/**
+ * Append `value` to the list stored under `key`, skipping duplicates.
+ */
+function addUnique(index: Map<number, number[]>, key: number, value: number) {
+  const values = index.get(key);
+  if (values === undefined) {
+    index.set(key, [value]);
+  } else if (!values.includes(value)) {
+    values.push(value);
+  }
+}
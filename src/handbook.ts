@@ -0,0 +1,354 @@
+import { requisiteLinks } from "./requisites";
+import type {
+  DirectedEdge,
+  GraphData,
+  Node,
+  Requisite,
+  Requisites,
+} from "./types";
+
+/**
+ * A subject read from a saved handbook page.
+ */
+export interface HandbookSubject {
+  code: string;
+  label: string;
+  url: string | null;
+  course: string | null;
+  creditPoints?: number;
+  requisites: Requisites;
+  /** The codes of the subjects named by the requisites, as written. */
+  references: string[];
+}
+
+/**
+ * A problem found while importing handbook pages.
+ * * `"unparseable"`: `source` is not a subject page that could be read.
+ * * `"unresolved"`: `source` references a subject `code` with no page.
+ */
+export type ImportProblem =
+  | { type: "unparseable"; source: string; message: string }
+  | { type: "unresolved"; source: string; code: string };
+
+/**
+ * The result of importing a set of handbook pages.
+ */
+export interface ImportResult {
+  data: GraphData;
+  problems: ImportProblem[];
+}
+
+const HANDBOOK_URL = "https://handbook.uts.edu.au/subjects/";
+
+/**
+ * Returns the id used in the dataset for a handbook code. Six digit codes
+ * end in a check digit the dataset leaves out, so `"010029"` is 1002.
+ * @param code The handbook code, e.g. `"48024"` or `"010029"`.
+ * @returns The numeric id.
+ */
+export function subjectId(code: string): number {
+  return parseInt(code.slice(0, 5), 10);
+}
+
+/**
+ * Replaces tags and entities in a piece of HTML with plain text.
+ */
+function text(html: string): string {
+  return html
+    .replace(/<br\s*\/?>/gi, " ")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Returns the plain text following a `label:` heading in a page, up to the
+ * end of its paragraph. Headings are matched case sensitively so that
+ * "credit points" inside a requisite sentence is not taken for one.
+ */
+function field(html: string, label: RegExp): string | null {
+  const match = html.match(
+    new RegExp(
+      `${label.source}\\s*:?\\s*(?:</[^>]+>)?([\\s\\S]*?)</(?:p|dd|li|div)>`
+    )
+  );
+  return match ? text(match[1]) : null;
+}
+
+type Token =
+  | { type: "(" | ")" | "and" | "or" }
+  | { type: "subject"; code: string; corequisite: boolean }
+  | { type: "credits"; points: number };
+
+/**
+ * Splits a requisite sentence, such as
+ * `"(48023 Programming Fundamentals OR 31251c Data Structures) AND 48
+ * credit points"`, into tokens. Subject names are skipped.
+ */
+function tokenize(sentence: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern =
+    /(\()|(\))|\b(AND)\b|\b(OR)\b|(\d+)\s*credit points?|\b(\d{5,6})(c?)\b/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(sentence)) !== null) {
+    if (match[1]) {
+      tokens.push({ type: "(" });
+    } else if (match[2]) {
+      tokens.push({ type: ")" });
+    } else if (match[3]) {
+      tokens.push({ type: "and" });
+    } else if (match[4]) {
+      tokens.push({ type: "or" });
+    } else if (match[5]) {
+      tokens.push({ type: "credits", points: parseInt(match[5], 10) });
+    } else {
+      tokens.push({
+        type: "subject",
+        code: match[6],
+        corequisite: match[7].toLowerCase() === "c",
+      });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Parses a requisite sentence into prerequisite and corequisite rules.
+ * "and" binds tighter than "or", and subjects suffixed with `c` are
+ * corequisites when they are required outright.
+ * @param sentence The text following "Requisite(s):".
+ * @returns The parsed rules.
+ */
+export function parseRequisites(sentence: string): Requisites {
+  const tokens = tokenize(sentence);
+  const marked = new Set<number>();
+  let position = 0;
+
+  const combine = (type: "and" | "or", of: Requisite[]): Requisite | null =>
+    of.length === 0 ? null : of.length === 1 ? of[0] : { type, of };
+
+  const atom = (): Requisite | null => {
+    const token = tokens[position];
+    switch (token?.type) {
+      case "(": {
+        position++;
+        const inner = or();
+        if (tokens[position]?.type === ")") {
+          position++;
+        }
+        return inner;
+      }
+      case "subject": {
+        position++;
+        const id = subjectId(token.code);
+        if (token.corequisite) {
+          marked.add(id);
+        }
+        return { type: "subject", id };
+      }
+      case "credits":
+        position++;
+        return { type: "credits", points: token.points };
+      default:
+        return null;
+    }
+  };
+
+  const and = (): Requisite | null => {
+    const of: Requisite[] = [];
+    while (position < tokens.length) {
+      const next = tokens[position];
+      if (next.type === "or" || next.type === ")") {
+        break;
+      }
+      if (next.type === "and") {
+        position++;
+        continue;
+      }
+      // Adjacent rules without a connective are required together
+      const requisite = atom();
+      if (requisite) {
+        of.push(requisite);
+      }
+    }
+    return combine("and", of);
+  };
+
+  const or = (): Requisite | null => {
+    const of: Requisite[] = [];
+    const first = and();
+    if (first) {
+      of.push(first);
+    }
+    while (tokens[position]?.type === "or") {
+      position++;
+      const requisite = and();
+      if (requisite) {
+        of.push(requisite);
+      }
+    }
+    return combine("or", of);
+  };
+
+  const required: Requisite[] = [];
+  while (position < tokens.length) {
+    const requisite = or();
+    if (requisite) {
+      required.push(requisite);
+    } else {
+      // Skip a stray closing parenthesis
+      position++;
+    }
+  }
+
+  // Move the outright required corequisites out of the prerequisites
+  const root = combine("and", required);
+  const outright = root?.type === "and" ? root.of : root ? [root] : [];
+  const prerequisites = outright.filter(
+    (r) => !(r.type === "subject" && marked.has(r.id))
+  );
+  const corequisites = outright.filter(
+    (r) => r.type === "subject" && marked.has(r.id)
+  );
+
+  return {
+    prerequisites: combine("and", prerequisites) ?? undefined,
+    corequisites: combine("and", corequisites) ?? undefined,
+  };
+}
+
+/**
+ * Reads a saved UTS handbook subject page.
+ * @param html The contents of the page.
+ * @param fileName The name of the saved file, used when the page does not
+ * state its own code.
+ * @returns The subject, or an error message when the page cannot be read.
+ */
+export function parseSubjectPage(
+  html: string,
+  fileName: string
+): HandbookSubject | string {
+  const heading = html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i);
+  if (!heading) {
+    return "no <h1> subject heading";
+  }
+  const title = text(heading[1]).match(/^(\d{5,6})\s+(.+)$/);
+  const fileCode = fileName.match(/(\d{5,6})\.html?$/i)?.[1];
+  const code = title?.[1] ?? fileCode;
+  if (!code) {
+    return "no subject code in the heading or file name";
+  }
+  const label = title?.[2] ?? text(heading[1]);
+  if (!label) {
+    return "empty subject name";
+  }
+
+  const canonical = html.match(
+    /<link[^>]+rel=["']canonical["'][^>]+href=["']([^"']+)["']/i
+  )?.[1];
+  const course = html.match(/UTS:\s*([^:<]+?)\s*(?::|<)/)?.[1]?.trim() ?? null;
+  const points = field(html, /Credit points/)?.match(/\d+/)?.[0];
+
+  const codes = (sentence: string | null) =>
+    sentence
+      ? tokenize(sentence).flatMap((token) =>
+          token.type === "subject" ? [token.code] : []
+        )
+      : [];
+  const requisiteText = field(html, /(?<!-)Requisite\(s\)/);
+  const requisites = requisiteText ? parseRequisites(requisiteText) : {};
+  const antirequisiteText = field(html, /Anti-requisite\(s\)/);
+  const antirequisites = codes(antirequisiteText).map(subjectId);
+  if (antirequisites.length > 0) {
+    requisites.antirequisites = antirequisites;
+  }
+
+  return {
+    code,
+    label,
+    url: canonical ?? `${HANDBOOK_URL}${code}.html`,
+    course,
+    creditPoints: points ? parseInt(points, 10) : undefined,
+    requisites,
+    references: [...codes(requisiteText), ...codes(antirequisiteText)],
+  };
+}
+
+/**
+ * Builds a dataset from saved handbook pages.
+ *
+ * Subjects referenced by a requisite but without a page of their own are
+ * kept as nodes with no label, url or course, as in the bundled dataset.
+ * @param pages The saved pages, by file name.
+ * @returns The `{nodes, links}` dataset and the problems found.
+ */
+export function importHandbook(
+  pages: { fileName: string; html: string }[]
+): ImportResult {
+  const problems: ImportProblem[] = [];
+  const subjects = new Map<number, HandbookSubject>();
+
+  for (const { fileName, html } of pages) {
+    const subject = parseSubjectPage(html, fileName);
+    if (typeof subject === "string") {
+      problems.push({
+        type: "unparseable",
+        source: fileName,
+        message: subject,
+      });
+    } else {
+      subjects.set(subjectId(subject.code), subject);
+    }
+  }
+
+  const nodes: Node[] = [];
+  const links: DirectedEdge[] = [];
+  const unresolved = new Set<number>();
+  for (const [id, subject] of subjects) {
+    const { requisites } = subject;
+    const node: Node = {
+      id,
+      label: subject.label,
+      url: subject.url,
+      course: subject.course,
+    };
+    if (subject.creditPoints !== undefined) {
+      node.creditPoints = subject.creditPoints;
+    }
+    if (requisites.prerequisites || requisites.corequisites) {
+      node.requisites = requisites;
+    }
+    nodes.push(node);
+
+    for (const link of requisiteLinks(id, requisites)) {
+      // Plain prerequisites keep the original `{source, target}` format
+      links.push(
+        link.kind === "prerequisite"
+          ? { source: link.source, target: link.target }
+          : link
+      );
+    }
+
+    // Report the codes as written, six digit codes keep their check digit
+    for (const code of subject.references) {
+      const reference = subjectId(code);
+      if (!subjects.has(reference) && !unresolved.has(reference)) {
+        unresolved.add(reference);
+        problems.push({ type: "unresolved", source: subject.code, code });
+      }
+    }
+  }
+
+  for (const id of unresolved) {
+    nodes.push({ id, label: null, url: null, course: null });
+  }
+  nodes.sort((a, b) => a.id - b.id);
+
+  return { data: { nodes, links }, problems };
+}
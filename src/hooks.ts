@@ -1,4 +1,8 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
+import type { CentralityScores } from "./centrality";
+import type { QueryArgs, QueryName, QueryResult } from "./queries";
+import { QueryService } from "./queryService";
+import type { GraphData } from "./types";
 
 interface WindowSize {
   width: number | undefined;
@@ -139,10 +143,12 @@ export function useSearchParamsStateArray(
     searchParamName,
     defaultValue.join(",")
   );
-  return [
-    searchParamsState.split(","),
-    (newState) => setSearchParamsState(newState.join(",")),
-  ];
+  // Parse once per value, so the array is the same on every render
+  const array = useMemo(
+    () => searchParamsState.split(","),
+    [searchParamsState]
+  );
+  return [array, (newState) => setSearchParamsState(newState.join(","))];
 }
 
 export function useSearchParamsStateArrayNumber(
@@ -156,10 +162,14 @@ export function useSearchParamsStateArrayNumber(
     searchParamName,
     defaultValue.join(",")
   );
-  return [
-    searchParamsState.split(",").map((x) => parseInt(x)),
-    (newState) => setSearchParamsState(newState.join(",")),
-  ];
+  const array = useMemo(
+    () =>
+      searchParamsState === ""
+        ? []
+        : searchParamsState.split(",").map((x) => parseInt(x)),
+    [searchParamsState]
+  );
+  return [array, (newState) => setSearchParamsState(newState.join(","))];
 }
 
 export function useSearchParamsStateArrayBoolean(
@@ -173,8 +183,139 @@ export function useSearchParamsStateArrayBoolean(
     searchParamName,
     defaultValue.join(",")
   );
-  return [
-    searchParamsState.split(",").map((x) => x === "true"),
-    (newState) => setSearchParamsState(newState.join(",")),
-  ];
+  const array = useMemo(
+    () => searchParamsState.split(",").map((x) => x === "true"),
+    [searchParamsState]
+  );
+  return [array, (newState) => setSearchParamsState(newState.join(","))];
+}
+
+interface CentralityState {
+  scores: CentralityScores[] | undefined;
+  error: string | undefined;
+}
+
+/**
+ * Computes the centrality scores of a graph in a worker.
+ * @param data The graph, or `undefined` to skip the computation.
+ * @returns The scores, `undefined` until the worker is done, and why the
+ * worker failed.
+ */
+export function useCentrality(data: GraphData | undefined): CentralityState {
+  const [state, setState] = useState<CentralityState>({
+    scores: undefined,
+    error: undefined,
+  });
+
+  useEffect(() => {
+    if (data === undefined) {
+      return;
+    }
+    setState({ scores: undefined, error: undefined });
+    const worker = new Worker(
+      new URL("./centralityWorker.ts", import.meta.url),
+      { type: "module" }
+    );
+    worker.onmessage = (event: MessageEvent<CentralityScores[]>) =>
+      setState({ scores: event.data, error: undefined });
+    worker.onerror = (event) =>
+      setState({
+        scores: undefined,
+        error: event.message || "The centrality worker failed",
+      });
+    worker.onmessageerror = () =>
+      setState({
+        scores: undefined,
+        error: "The centrality scores were unreadable",
+      });
+    worker.postMessage(data);
+
+    return () => worker.terminate();
+  }, [data]);
+
+  return state;
+}
+
+/**
+ * Starts a query worker for a graph, stopped when the graph changes.
+ * @param data The graph.
+ * @returns The service, `undefined` until the worker has started.
+ */
+export function useQueryService(data: GraphData) {
+  const [service, setService] = useState<QueryService>();
+
+  useEffect(() => {
+    const started = new QueryService(data);
+    setService(started);
+
+    return () => started.dispose();
+  }, [data]);
+
+  return service;
+}
+
+interface QueryState<T> {
+  loading: boolean;
+  result: T | undefined;
+  error: string | undefined;
+}
+
+/**
+ * Runs a graph query in the query worker, cancelling the previous one when
+ * the arguments change. The previous result is kept while the next loads.
+ * @param service The query service.
+ * @param name The name of the query.
+ * @param args The arguments of the query, or `undefined` to skip it.
+ * @param undirected Whether to ignore the direction of the edges.
+ * @returns Whether the query is running, its result and its error.
+ */
+export function useQuery<Q extends QueryName>(
+  service: QueryService | undefined,
+  name: Q,
+  args: QueryArgs<Q> | undefined,
+  undirected = false
+): QueryState<QueryResult<Q>> {
+  const [state, setState] = useState<
+    QueryState<QueryResult<Q>> & { service?: QueryService }
+  >({ loading: false, result: undefined, error: undefined });
+  // The arguments are rebuilt on every render, compare their contents
+  const key = JSON.stringify(args);
+
+  useEffect(() => {
+    if (args === undefined) {
+      setState({ loading: false, result: undefined, error: undefined });
+      return;
+    }
+    if (service === undefined) {
+      setState((previous) => ({ ...previous, loading: true }));
+      return;
+    }
+    const controller = new AbortController();
+    setState((previous) => ({ ...previous, loading: true }));
+    service
+      .run(name, args, { undirected, signal: controller.signal })
+      .then((result) =>
+        setState({ service, loading: false, result, error: undefined })
+      )
+      .catch((reason) => {
+        if (!controller.signal.aborted) {
+          setState({
+            service,
+            loading: false,
+            result: undefined,
+            error: String(reason),
+          });
+        }
+      });
+
+    return () => controller.abort();
+  }, [service, name, key, undirected]);
+
+  // Results of a previous graph do not apply to this one
+  const current = state.service === service;
+  return {
+    loading: state.loading,
+    result: current ? state.result : undefined,
+    error: current ? state.error : undefined,
+  };
 }
@@ -0,0 +1,175 @@
+import { Graph } from "./graph";
+import { subjectName } from "./subjects";
+import type { GraphData } from "./types";
+
+/**
+ * The direction an outline branch follows: `"down"` to prerequisites,
+ * `"up"` to the subjects that require them.
+ */
+export type OutlineDirection = "down" | "up";
+
+/**
+ * A row of the outline.
+ */
+export interface OutlineItem {
+  /** Identifies the row, unique within the outline. */
+  key: string;
+  /**
+   * A subject shown in full, a heading grouping one direction of the
+   * anchor, or a repeat of a subject shown in full elsewhere.
+   */
+  kind: "subject" | "group" | "reference";
+  label: string;
+  /** The subject of the row, unless it is a heading. */
+  id?: number;
+  /** The key of the row a reference repeats. */
+  target?: string;
+  /** Whether the row has rows under it. */
+  expandable: boolean;
+}
+
+/**
+ * The prerequisite hierarchy of a set of subjects, as nested rows. Each
+ * subject is shown in full once per direction, at its shortest distance from
+ * the roots, and as a reference everywhere else.
+ */
+export interface Outline {
+  roots: OutlineItem[];
+  /** Returns the rows under a row. */
+  children: (item: OutlineItem) => OutlineItem[];
+  /** The key of the row above each row shown in full, and each heading. */
+  parents: Map<string, string>;
+}
+
+const GROUP_LABELS: Record<OutlineDirection, string> = {
+  down: "Prerequisites",
+  up: "Required by",
+};
+
+/**
+ * Builds the outline of the subjects on screen.
+ * @param data The subjects and links on screen.
+ * @param anchor The subject to show the prerequisites and dependents of.
+ * When it is not on screen, the outline starts from every subject no other
+ * subject requires instead.
+ * @returns The outline.
+ */
+export function buildOutline(data: GraphData, anchor: number): Outline {
+  const graph = new Graph(data);
+  const anchored = graph.node(anchor) !== undefined;
+  const next = (id: number, direction: OutlineDirection) =>
+    direction === "down" ? graph.children(id) : graph.parents(id);
+
+  let rootIds = [anchor];
+  if (!anchored) {
+    rootIds = data.nodes
+      .filter((node) => graph.parents(node.id).length === 0)
+      .map((node) => node.id);
+    // Every subject lies on a cycle, start anywhere
+    if (rootIds.length === 0) {
+      rootIds = data.nodes.map((node) => node.id);
+    }
+  }
+
+  const rootKey = (id: number) => `root:${id}`;
+  const parents = new Map<string, string>();
+  if (anchored) {
+    parents.set("group:down", rootKey(anchor));
+    parents.set("group:up", rootKey(anchor));
+  }
+
+  /**
+   * Finds the row that shows each subject in full, the first one met
+   * walking breadth first from the roots.
+   */
+  const shortestTree = (direction: OutlineDirection) => {
+    const keys = new Map(rootIds.map((id) => [id, rootKey(id)]));
+    const via = new Map<number, number>();
+    const queue = [...rootIds];
+    for (let i = 0; i < queue.length; i++) {
+      const id = queue[i];
+      for (const vertex of next(id, direction)) {
+        if (keys.has(vertex)) {
+          continue;
+        }
+        const key = `${direction}:${vertex}`;
+        keys.set(vertex, key);
+        via.set(vertex, id);
+        parents.set(
+          key,
+          anchored && id === anchor ? `group:${direction}` : keys.get(id)!
+        );
+        queue.push(vertex);
+      }
+    }
+    return { keys, via };
+  };
+
+  const trees = {
+    down: shortestTree("down"),
+    up: anchored ? shortestTree("up") : undefined,
+  };
+
+  const subject = (
+    id: number,
+    key: string,
+    direction: OutlineDirection
+  ): OutlineItem => ({
+    key,
+    kind: "subject",
+    id,
+    label: subjectName(graph.node(id)!),
+    expandable: next(id, direction).length > 0,
+  });
+
+  /**
+   * Returns the rows for the next subjects of a subject.
+   */
+  const branch = (id: number, key: string, direction: OutlineDirection) => {
+    const { keys, via } = trees[direction]!;
+    return next(id, direction).map((vertex): OutlineItem => {
+      const target = keys.get(vertex)!;
+      if (via.get(vertex) === id) {
+        return subject(vertex, target, direction);
+      }
+      return {
+        key: `${key}>${vertex}`,
+        kind: "reference",
+        id: vertex,
+        label: subjectName(graph.node(vertex)!),
+        target,
+        expandable: false,
+      };
+    });
+  };
+
+  const group = (direction: OutlineDirection): OutlineItem => ({
+    key: `group:${direction}`,
+    kind: "group",
+    label: `${GROUP_LABELS[direction]} (${next(anchor, direction).length})`,
+    expandable: next(anchor, direction).length > 0,
+  });
+
+  const children = (item: OutlineItem): OutlineItem[] => {
+    if (item.kind === "group") {
+      const direction = item.key === "group:up" ? "up" : "down";
+      return branch(anchor, item.key, direction);
+    }
+    if (item.kind === "reference" || item.id === undefined) {
+      return [];
+    }
+    if (item.key.startsWith("root:")) {
+      return anchored
+        ? [group("down"), group("up")]
+        : branch(item.id, item.key, "down");
+    }
+    const direction = item.key.startsWith("up:") ? "up" : "down";
+    return branch(item.id, item.key, direction);
+  };
+
+  const roots = rootIds.map((id) => ({
+    ...subject(id, rootKey(id), "down"),
+    expandable: anchored || graph.children(id).length > 0,
+  }));
+  return { roots, children, parents };
+}
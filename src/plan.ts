@@ -0,0 +1,215 @@
+import { Graph } from "./graph";
+import {
+  isSatisfied,
+  minimumPrerequisites,
+  requisitesOf,
+  requisiteSubjects,
+} from "./requisites";
+import { descendants } from "./search";
+import type { Requisite } from "./types";
+
+/**
+ * Why a subject could not be placed in a study plan.
+ * * `"missing"`: the subject is not in the dataset.
+ * * `"cycle"`: the subject is part of a requisite cycle.
+ * * `"credits"`: the planned subjects add up to fewer credit points than
+ *   the subject requires.
+ * * `"blocked"`: one of the subject's requisites cannot be scheduled.
+ */
+export type UnschedulableReason = "missing" | "cycle" | "credits" | "blocked";
+
+/**
+ * A subject that could not be placed in a study plan.
+ */
+export interface Unschedulable {
+  id: number;
+  reason: UnschedulableReason;
+}
+
+/**
+ * A semester by semester study plan.
+ */
+export interface StudyPlan {
+  /** The subjects to take in each semester, in order. */
+  semesters: number[][];
+  unschedulable: Unschedulable[];
+}
+
+/**
+ * Plans the semesters needed to complete a set of target subjects.
+ *
+ * The cheapest way to meet the requisites of each target is planned, given
+ * the subjects already completed, see `minimumPrerequisites`. Each subject
+ * is scheduled once the subjects before it satisfy its prerequisites, with
+ * its corequisites before it or in the same semester, taking the subjects
+ * heading the longest remaining chain first. This critical path order gives
+ * the fewest semesters when the load is not the limit, and stays close to it
+ * otherwise.
+ * @param targets The ids of the subjects to work towards.
+ * @param completed The ids of the subjects already completed.
+ * @param maxLoad The maximum number of subjects per semester.
+ * @param graph The indexed graph.
+ * @returns The plan, and the subjects that could not be scheduled.
+ */
+export function studyPlan(
+  targets: number[],
+  completed: number[],
+  maxLoad: number,
+  graph: Graph
+): StudyPlan {
+  const done = new Set(completed);
+  const needed = new Set<number>();
+  for (const target of targets) {
+    const { subjects } = minimumPrerequisites(target, graph, done);
+    for (const id of [target, ...subjects]) {
+      if (!done.has(id)) {
+        needed.add(id);
+      }
+    }
+  }
+
+  const unschedulable = new Map<number, UnschedulableReason>();
+  for (const id of needed) {
+    if (graph.node(id) === undefined) {
+      unschedulable.set(id, "missing");
+    }
+  }
+
+  // The subjects taken before the semester being planned
+  const taken = new Set(done);
+  const rules = (id: number) => requisitesOf(id, graph);
+  const satisfied = (
+    requisite: Requisite | undefined,
+    completed: ReadonlySet<number>
+  ) => !requisite || isSatisfied(requisite, completed, graph);
+  const height = chainHeights(needed, graph);
+  const byPriority = (a: number, b: number) =>
+    height.get(b)! - height.get(a)! || a - b;
+
+  const semesters: number[][] = [];
+  const scheduled = new Set<number>();
+  for (;;) {
+    const available = [...needed]
+      .filter(
+        (id) =>
+          !scheduled.has(id) &&
+          !unschedulable.has(id) &&
+          satisfied(rules(id).prerequisites, taken)
+      )
+      .sort(byPriority);
+    const semester = new Set<number>();
+    const load = Math.max(1, maxLoad);
+
+    // Take each subject with the corequisites it still lacks, as long as
+    // they fit the load
+    for (const id of available) {
+      if (semester.has(id)) {
+        continue;
+      }
+      const { corequisites } = rules(id);
+      const group = [
+        id,
+        ...(corequisites ? requisiteSubjects(corequisites) : []).filter(
+          (other) =>
+            available.includes(other) && !semester.has(other) && other !== id
+        ),
+      ];
+      const alongside = new Set([...taken, ...semester, ...group]);
+      const fits =
+        semester.size + group.length <= load &&
+        group.every((member) =>
+          satisfied(rules(member).corequisites, alongside)
+        );
+      if (fits) {
+        group.forEach((member) => semester.add(member));
+      }
+    }
+    if (semester.size === 0) {
+      break;
+    }
+    semesters.push([...semester].sort(byPriority));
+    for (const id of semester) {
+      scheduled.add(id);
+      taken.add(id);
+    }
+  }
+
+  // Whatever was never freed sits on, or behind, a cycle, a missing subject
+  // or a credit point rule
+  const leftOver = [...needed].filter(
+    (id) => !scheduled.has(id) && !unschedulable.has(id)
+  );
+  const stuck = new Set(leftOver);
+  for (const id of leftOver) {
+    const onCycle = graph
+      .children(id)
+      .some(
+        (prerequisite) =>
+          stuck.has(prerequisite) &&
+          (prerequisite === id || descendants(prerequisite, graph).includes(id))
+      );
+    const { prerequisites, corequisites } = rules(id);
+    // Would the subject be free if credit point rules were met?
+    const shortOfCredits = [prerequisites, corequisites].every(
+      (requisite) => !requisite || satisfied(ignoreCredits(requisite), taken)
+    );
+    unschedulable.set(
+      id,
+      onCycle ? "cycle" : shortOfCredits ? "credits" : "blocked"
+    );
+  }
+
+  return {
+    semesters,
+    unschedulable: Array.from(unschedulable, ([id, reason]) => ({
+      id,
+      reason,
+    })),
+  };
+}
+
+/**
+ * Returns a rule with every credit point rule taken as met.
+ */
+function ignoreCredits(requisite: Requisite): Requisite {
+  switch (requisite.type) {
+    case "credits":
+      // Every rule of none is met
+      return { type: "and", of: [] };
+    case "and":
+    case "or":
+      return { type: requisite.type, of: requisite.of.map(ignoreCredits) };
+    default:
+      return requisite;
+  }
+}
+
+/**
+ * Returns the length of the longest chain of needed subjects that each
+ * subject unlocks, counting the subject itself.
+ */
+function chainHeights(needed: Set<number>, graph: Graph): Map<number, number> {
+  const heights = new Map<number, number>();
+  const inProgress = new Set<number>();
+  const visit = (id: number): number => {
+    const known = heights.get(id);
+    if (known !== undefined) {
+      return known;
+    }
+    if (inProgress.has(id)) {
+      return 0;
+    }
+    inProgress.add(id);
+    let height = 1;
+    for (const dependent of graph.parents(id)) {
+      if (needed.has(dependent)) {
+        height = Math.max(height, visit(dependent) + 1);
+      }
+    }
+    inProgress.delete(id);
+    heights.set(id, height);
+    return height;
+  };
+  needed.forEach(visit);
+  return heights;
+}
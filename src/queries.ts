@@ -0,0 +1,246 @@
+import { evaluateExpression, parseExpression } from "./expression";
+import { Graph } from "./graph";
+import { minimumPrerequisites } from "./requisites";
+import {
+  allShortestPaths,
+  ancestors,
+  ancestorsAndSelf,
+  between,
+  children,
+  childrenAndSelf,
+  cousins,
+  cousinsAndSelf,
+  cycles,
+  descendants,
+  descendantsAndSelf,
+  dijkstraShortestPath,
+  edgeWeights,
+  everything,
+  frontier,
+  hasCycle,
+  hopDistances,
+  isolatedNodes,
+  kShortestPaths,
+  parents,
+  parentsAndSelf,
+  postman,
+  postmanTour,
+  related,
+  relatedAndSelf,
+  relatives,
+  RELATIONS,
+  siblings,
+  siblingsAndSelf,
+  stronglyConnectedComponents,
+  subjectStatus,
+  traverse,
+} from "./search";
+import type {
+  DirectionDepths,
+  EdgeWeightName,
+  Relation,
+  Traversal,
+} from "./search";
+import type { GraphData } from "./types";
+
+/**
+ * Which subjects to show around a subject.
+ */
+export interface TreeOptions {
+  /** The relations of the subjects to the subject, see `Relation`. */
+  relations: Relation[];
+  /** Only the cheapest prerequisites instead of every descendant. */
+  minimal: boolean;
+  /** The most hops to follow to descendants. */
+  descendantDepth: number;
+  /** The most hops to follow to ancestors. */
+  ancestorDepth: number;
+}
+
+/**
+ * A subject shown around a subject.
+ */
+export interface TreeMember {
+  /** The closest relation that brought the subject in. */
+  relation: Relation;
+  /** The hop distance from the subject, `Infinity` if unconnected. */
+  distance: number;
+}
+
+/**
+ * Returns the subjects shown around a subject.
+ * @param id The id of the subject.
+ * @param options The relations to include.
+ * @param graph The indexed graph.
+ * @returns The relation and hop distance of each subject in the tree.
+ */
+export function subjectTree(
+  id: number,
+  options: TreeOptions,
+  graph: Graph
+): Map<number, TreeMember> {
+  const tree = new Map<number, TreeMember>();
+  const add = (relation: Relation, distances: Map<number, number>) =>
+    distances.forEach((distance, vertex) => {
+      // Keep the closest relation of each subject
+      if (!tree.has(vertex)) {
+        tree.set(vertex, { relation, distance });
+      }
+    });
+
+  // The distances ignoring direction, for the relations that are not walks
+  let web: Map<number, number> | undefined;
+  const distanceOf = (vertex: number) => {
+    web ??= hopDistances(id, graph, "web");
+    return web.get(vertex) ?? Infinity;
+  };
+
+  const both: DirectionDepths = {
+    ancestors: options.ancestorDepth,
+    descendants: options.descendantDepth,
+  };
+  const depths: Partial<Record<Relation, number | DirectionDepths>> = {
+    ancestors: options.ancestorDepth,
+    descendants: options.descendantDepth,
+    tree: both,
+    web: both,
+  };
+
+  for (const relation of RELATIONS) {
+    if (!options.relations.includes(relation)) {
+      continue;
+    }
+    const depth = depths[relation];
+    if (depth === undefined) {
+      const ids = relatives(id, graph, relation);
+      add(relation, new Map(ids.map((vertex) => [vertex, distanceOf(vertex)])));
+      continue;
+    }
+
+    const distances = hopDistances(id, graph, relation as Traversal, depth);
+    // Only the tree includes the subject itself
+    if (relation !== "tree") {
+      distances.delete(id);
+    }
+    if (relation === "descendants" && options.minimal) {
+      const cheapest = new Set(minimumPrerequisites(id, graph).subjects);
+      distances.forEach((_, vertex) => {
+        if (!cheapest.has(vertex)) {
+          distances.delete(vertex);
+        }
+      });
+    }
+    add(relation, distances);
+  }
+  return tree;
+}
+
+/**
+ * The graph queries the query worker answers. Each takes the graph first,
+ * followed by arguments that can be sent to a worker: edge weights are
+ * given by name instead of as functions.
+ */
+export const QUERIES = {
+  traverse: (graph: Graph, id: number, mode: Traversal, maxDepth?: number) =>
+    Array.from(traverse(id, graph, mode, maxDepth)),
+  hopDistances: (
+    graph: Graph,
+    id: number,
+    mode: Traversal,
+    maxDepth?: number
+  ) => hopDistances(id, graph, mode, maxDepth),
+  parents: (graph: Graph, id: number) => parents(id, graph),
+  ancestors: (graph: Graph, id: number, maxDepth?: number) =>
+    ancestors(id, graph, maxDepth),
+  children: (graph: Graph, id: number) => children(id, graph),
+  descendants: (graph: Graph, id: number, maxDepth?: number) =>
+    descendants(id, graph, maxDepth),
+  descendantsAndSelf: (graph: Graph, id: number) =>
+    descendantsAndSelf(id, graph),
+  parentsAndSelf: (graph: Graph, id: number) => parentsAndSelf(id, graph),
+  siblings: (graph: Graph, id: number) => siblings(id, graph),
+  cousins: (graph: Graph, id: number) => cousins(id, graph),
+  related: (graph: Graph, id: number) => related(id, graph),
+  relatives: (
+    graph: Graph,
+    id: number,
+    relation: Relation,
+    maxDepth?: number
+  ) => relatives(id, graph, relation, maxDepth),
+  relatedAndSelf: (graph: Graph, id: number) => relatedAndSelf(id, graph),
+  ancestorsAndSelf: (graph: Graph, id: number) => ancestorsAndSelf(id, graph),
+  cousinsAndSelf: (graph: Graph, id: number) => cousinsAndSelf(id, graph),
+  siblingsAndSelf: (graph: Graph, id: number) => siblingsAndSelf(id, graph),
+  childrenAndSelf: (graph: Graph, id: number) => childrenAndSelf(id, graph),
+  everything: (graph: Graph) => everything(graph),
+  isolatedNodes: (graph: Graph) => isolatedNodes(graph),
+  dijkstraShortestPath: (
+    graph: Graph,
+    source: number,
+    target: number,
+    weight: EdgeWeightName = "hops"
+  ) => dijkstraShortestPath(source, target, graph, edgeWeights[weight]),
+  kShortestPaths: (
+    graph: Graph,
+    source: number,
+    target: number,
+    k: number,
+    weight: EdgeWeightName = "hops"
+  ) => kShortestPaths(source, target, k, graph, edgeWeights[weight]),
+  allShortestPaths: (
+    graph: Graph,
+    source: number,
+    target: number,
+    weight: EdgeWeightName = "hops",
+    limit?: number
+  ) => allShortestPaths(source, target, graph, edgeWeights[weight], limit),
+  between: (graph: Graph, source: number, target: number) =>
+    between(source, target, graph),
+  postman: (graph: Graph) => postman(graph),
+  postmanTour: (graph: Graph) => postmanTour(graph),
+  hasCycle: (graph: Graph) => hasCycle(graph),
+  subjectStatus: (graph: Graph, id: number, completed: number[]) =>
+    subjectStatus(id, new Set(completed), graph),
+  frontier: (graph: Graph, completed: number[]) =>
+    frontier(new Set(completed), graph),
+  stronglyConnectedComponents: (graph: Graph) =>
+    stronglyConnectedComponents(graph),
+  cycles: (graph: Graph) => cycles(graph),
+  subjectTrees: (graph: Graph, ids: number[], options: TreeOptions) =>
+    ids.map((id) => subjectTree(id, options, graph)),
+  expression: (graph: Graph, text: string) =>
+    evaluateExpression(parseExpression(text), graph),
+};
+
+export type QueryName = keyof typeof QUERIES;
+
+/** The arguments of a query, after the graph. */
+export type QueryArgs<Q extends QueryName> = Parameters<
+  (typeof QUERIES)[Q]
+> extends [Graph, ...infer Rest]
+  ? Rest
+  : never;
+
+export type QueryResult<Q extends QueryName> = ReturnType<(typeof QUERIES)[Q]>;
+
+/**
+ * Messages sent to the query worker.
+ */
+export type QueryRequest =
+  | { type: "load"; data: GraphData }
+  | {
+      type: "query";
+      id: number;
+      name: QueryName;
+      args: unknown[];
+      /** Whether to ignore the direction of the edges. */
+      undirected: boolean;
+    }
+  | { type: "cancel"; id: number };
+
+/**
+ * Messages sent back by the query worker.
+ */
+export type QueryResponse =
+  | { id: number; result: unknown }
+  | { id: number; error: string };
@@ -0,0 +1,141 @@
+import type {
+  QueryArgs,
+  QueryName,
+  QueryRequest,
+  QueryResponse,
+  QueryResult,
+} from "./queries";
+import type { GraphData } from "./types";
+
+interface QueryOptions {
+  /** Whether to ignore the direction of the edges. */
+  undirected?: boolean;
+  /** Cancels the query, rejecting its promise with an `AbortError`. */
+  signal?: AbortSignal;
+}
+
+interface Waiting {
+  request: QueryRequest;
+  resolve: (result: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+const abortError = () => new DOMException("Query cancelled", "AbortError");
+
+/**
+ * Runs graph queries in a worker, so long searches do not freeze the page.
+ * The graph is sent to the worker when the service is created, and again
+ * whenever the worker is restarted to stop a running query.
+ */
+export class QueryService {
+  private worker: Worker;
+  private nextId = 0;
+  // In the order sent, which is the order the worker runs them
+  private waiting = new Map<number, Waiting>();
+  // Why the worker stopped answering, once it has
+  private failure?: Error;
+
+  constructor(private data: GraphData) {
+    this.worker = this.start();
+  }
+
+  private start() {
+    const worker = new Worker(new URL("./queryWorker.ts", import.meta.url), {
+      type: "module",
+    });
+    worker.onmessage = (event: MessageEvent<QueryResponse>) => {
+      const response = event.data;
+      const waiting = this.waiting.get(response.id);
+      // Answers to cancelled queries are dropped
+      if (!waiting) {
+        return;
+      }
+      this.waiting.delete(response.id);
+      if ("error" in response) {
+        waiting.reject(new Error(response.error));
+      } else {
+        waiting.resolve(response.result);
+      }
+    };
+    // A crashed worker answers no more queries
+    worker.onerror = (event) => {
+      this.failure = new Error(event.message || "The query worker failed");
+      this.rejectAll(this.failure);
+    };
+    // An unreadable answer cannot be matched to its query, fail them all
+    worker.onmessageerror = () =>
+      this.rejectAll(new Error("An answer of the query worker was unreadable"));
+    worker.postMessage({ type: "load", data: this.data });
+    return worker;
+  }
+
+  /**
+   * Replaces the worker, as a running query cannot be interrupted, and sends
+   * the queries still waiting to the new one.
+   */
+  private restart() {
+    this.worker.terminate();
+    this.worker = this.start();
+    this.waiting.forEach(({ request }) => this.post(request));
+  }
+
+  private rejectAll(reason: unknown) {
+    this.waiting.forEach(({ reject }) => reject(reason));
+    this.waiting.clear();
+  }
+
+  private post(request: QueryRequest) {
+    this.worker.postMessage(request);
+  }
+
+  /**
+   * Runs a query against the graph.
+   * @param name The name of the query.
+   * @param args The arguments of the query, after the graph.
+   * @param options Whether to search the undirected graph, and a signal to
+   * cancel the query.
+   * @returns The result of the query.
+   */
+  public run<Q extends QueryName>(
+    name: Q,
+    args: QueryArgs<Q>,
+    { undirected = false, signal }: QueryOptions = {}
+  ): Promise<QueryResult<Q>> {
+    if (signal?.aborted) {
+      return Promise.reject(abortError());
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    const id = this.nextId++;
+    const request: QueryRequest = { type: "query", id, name, args, undirected };
+    return new Promise((resolve, reject) => {
+      this.waiting.set(id, {
+        request,
+        resolve: resolve as (result: unknown) => void,
+        reject,
+      });
+      signal?.addEventListener("abort", () => {
+        // The first query still waiting is the one the worker is on
+        const running = this.waiting.keys().next().value === id;
+        if (this.waiting.delete(id)) {
+          if (running) {
+            this.restart();
+          } else {
+            this.post({ type: "cancel", id });
+          }
+          reject(abortError());
+        }
+      });
+      this.post(request);
+    });
+  }
+
+  /**
+   * Stops the worker, rejecting the queries still running.
+   */
+  public dispose() {
+    this.worker.terminate();
+    this.rejectAll(abortError());
+  }
+}
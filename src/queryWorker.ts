@@ -0,0 +1,63 @@
+import { Graph } from "./graph";
+import { QUERIES } from "./queries";
+import type { QueryRequest, QueryResponse } from "./queries";
+import { undirected } from "./search";
+
+// The worker scope posts messages back to the page that started it
+const scope = self as unknown as Worker;
+
+let graph: Graph | undefined;
+let undirectedGraph: Graph | undefined;
+
+// Queries waiting to run, by id, so a cancel can drop them
+const pending = new Map<number, Extract<QueryRequest, { type: "query" }>>();
+
+const reply = (response: QueryResponse) => scope.postMessage(response);
+
+const run = (id: number) => {
+  const request = pending.get(id);
+  if (!request) {
+    // Cancelled while queued
+    return;
+  }
+  pending.delete(id);
+  try {
+    if (!graph) {
+      throw new Error("No graph has been loaded");
+    }
+    if (request.undirected && !undirectedGraph) {
+      undirectedGraph = undirected(graph);
+    }
+    const query = QUERIES[request.name] as (
+      graph: Graph,
+      ...args: unknown[]
+    ) => unknown;
+    reply({
+      id,
+      result: query(
+        request.undirected ? undirectedGraph! : graph,
+        ...request.args
+      ),
+    });
+  } catch (error) {
+    reply({ id, error: String(error) });
+  }
+};
+
+scope.onmessage = (event: MessageEvent<QueryRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case "load":
+      graph = new Graph(request.data);
+      undirectedGraph = undefined;
+      break;
+    case "query":
+      pending.set(request.id, request);
+      // Run in a later task so cancels sent meanwhile are handled first
+      setTimeout(() => run(request.id));
+      break;
+    case "cancel":
+      pending.delete(request.id);
+      break;
+  }
+};
@@ -0,0 +1,237 @@
+import { Graph } from "./graph";
+import { creditPoints } from "./subjects";
+import type { DirectedEdge, Requisite, Requisites } from "./types";
+
+/**
+ * Returns the requisites of a subject.
+ *
+ * Subjects without a `requisites` expression get one derived from their
+ * outgoing links: every `"prerequisite"` edge is required, and the
+ * `"alternative"` edges form a single "or" group.
+ * @param id The id of the subject.
+ * @param graph The indexed graph.
+ * @returns The requisites of the subject.
+ */
+export function requisitesOf(id: number, graph: Graph): Requisites {
+  const explicit = graph.node(id)?.requisites;
+  if (explicit) {
+    return explicit;
+  }
+
+  const required: Requisite[] = [];
+  const alternatives: Requisite[] = [];
+  const corequisites: Requisite[] = [];
+  const antirequisites: number[] = [];
+  for (const edge of graph.outgoing(id)) {
+    const subject: Requisite = { type: "subject", id: edge.target };
+    switch (edge.kind ?? "prerequisite") {
+      case "prerequisite":
+        required.push(subject);
+        break;
+      case "alternative":
+        alternatives.push(subject);
+        break;
+      case "corequisite":
+        corequisites.push(subject);
+        break;
+      case "antirequisite":
+        antirequisites.push(edge.target);
+        break;
+    }
+  }
+  if (alternatives.length > 0) {
+    required.push({ type: "or", of: alternatives });
+  }
+
+  return {
+    prerequisites:
+      required.length > 0 ? { type: "and", of: required } : undefined,
+    corequisites:
+      corequisites.length > 0 ? { type: "and", of: corequisites } : undefined,
+    antirequisites: antirequisites.length > 0 ? antirequisites : undefined,
+  };
+}
+
+/**
+ * Returns the edges described by the requisites of a subject.
+ * Subjects inside an "or" group become `"alternative"` edges.
+ * @param id The id of the subject.
+ * @param requisites The requisites of the subject.
+ * @returns The edges leading from the subject.
+ */
+export function requisiteLinks(
+  id: number,
+  requisites: Requisites
+): DirectedEdge[] {
+  const links: DirectedEdge[] = [];
+  const visit = (
+    requisite: Requisite,
+    kind: "prerequisite" | "corequisite",
+    inOr: boolean
+  ) => {
+    switch (requisite.type) {
+      case "subject":
+        links.push({
+          source: id,
+          target: requisite.id,
+          kind: inOr && kind === "prerequisite" ? "alternative" : kind,
+        });
+        break;
+      case "and":
+        requisite.of.forEach((r) => visit(r, kind, inOr));
+        break;
+      case "or":
+        requisite.of.forEach((r) => visit(r, kind, true));
+        break;
+    }
+  };
+
+  if (requisites.prerequisites) {
+    visit(requisites.prerequisites, "prerequisite", false);
+  }
+  if (requisites.corequisites) {
+    visit(requisites.corequisites, "corequisite", false);
+  }
+  for (const target of requisites.antirequisites ?? []) {
+    links.push({ source: id, target, kind: "antirequisite" });
+  }
+  return links;
+}
+
+/**
+ * Returns the subjects named anywhere in a requisite rule.
+ * @param requisite The rule.
+ * @returns The ids of the subjects.
+ */
+export function requisiteSubjects(requisite: Requisite): number[] {
+  switch (requisite.type) {
+    case "subject":
+      return [requisite.id];
+    case "and":
+    case "or":
+      return Array.from(new Set(requisite.of.flatMap(requisiteSubjects)));
+    case "credits":
+      return [];
+  }
+}
+
+/**
+ * Returns if a requisite rule is satisfied by a set of completed subjects.
+ * @param requisite The rule.
+ * @param completed The ids of the completed subjects.
+ * @param graph The indexed graph, used to count credit points.
+ * @returns If the rule is satisfied.
+ */
+export function isSatisfied(
+  requisite: Requisite,
+  completed: ReadonlySet<number>,
+  graph: Graph
+): boolean {
+  switch (requisite.type) {
+    case "subject":
+      return completed.has(requisite.id);
+    case "and":
+      return requisite.of.every((r) => isSatisfied(r, completed, graph));
+    case "or":
+      return requisite.of.some((r) => isSatisfied(r, completed, graph));
+    case "credits": {
+      let points = 0;
+      completed.forEach((id) => (points += creditPoints(graph.node(id))));
+      return points >= requisite.points;
+    }
+  }
+}
+
+/**
+ * The cheapest way to become eligible for a subject.
+ */
+export interface PrerequisiteSet {
+  /** The subjects to complete, excluding the subject itself. */
+  subjects: number[];
+  /** The largest credit point rule met along the way. */
+  creditPoints: number;
+}
+
+/**
+ * Returns the minimum set of subjects to complete before a subject can be
+ * taken, picking the cheapest branch of every "or" group by credit points.
+ * Corequisites are included, antirequisites are ignored.
+ * @param id The id of the subject.
+ * @param graph The indexed graph.
+ * @param completed The ids of the subjects already completed. They cost
+ * nothing, and the rules they satisfy need no further subjects.
+ * @returns The subjects and credit points still required.
+ */
+export function minimumPrerequisites(
+  id: number,
+  graph: Graph,
+  completed: ReadonlySet<number> = new Set()
+): PrerequisiteSet {
+  // The subjects needed to take each subject, including itself
+  const memo = new Map<number, Set<number>>();
+  const inProgress = new Set<number>();
+  let requiredPoints = 0;
+
+  const cost = (subjects: Set<number>) => {
+    let total = 0;
+    subjects.forEach((s) => (total += creditPoints(graph.node(s))));
+    return total;
+  };
+
+  const solveSubject = (subject: number): Set<number> => {
+    if (completed.has(subject)) {
+      return new Set();
+    }
+    const known = memo.get(subject);
+    if (known) {
+      return known;
+    }
+    // Break requisite cycles instead of recursing forever
+    if (inProgress.has(subject)) {
+      return new Set([subject]);
+    }
+    inProgress.add(subject);
+    const { prerequisites, corequisites } = requisitesOf(subject, graph);
+    const needed = new Set<number>([subject]);
+    for (const requisite of [prerequisites, corequisites]) {
+      if (requisite) {
+        solve(requisite).forEach((s) => needed.add(s));
+      }
+    }
+    inProgress.delete(subject);
+    memo.set(subject, needed);
+    return needed;
+  };
+
+  const solve = (requisite: Requisite): Set<number> => {
+    if (isSatisfied(requisite, completed, graph)) {
+      return new Set();
+    }
+    switch (requisite.type) {
+      case "subject":
+        return solveSubject(requisite.id);
+      case "and": {
+        const needed = new Set<number>();
+        requisite.of.forEach((r) => solve(r).forEach((s) => needed.add(s)));
+        return needed;
+      }
+      case "or": {
+        let cheapest: Set<number> | undefined;
+        for (const option of requisite.of) {
+          const needed = solve(option);
+          if (cheapest === undefined || cost(needed) < cost(cheapest)) {
+            cheapest = needed;
+          }
+        }
+        return cheapest ?? new Set();
+      }
+      case "credits":
+        requiredPoints = Math.max(requiredPoints, requisite.points);
+        return new Set();
+    }
+  };
+
+  const needed = solveSubject(id);
+  needed.delete(id);
+  return { subjects: Array.from(needed), creditPoints: requiredPoints };
+}
@@ -1,4 +1,7 @@
-import makeAsynchronous from "make-asynchronous";
+import { Graph } from "./graph";
+import { isSatisfied, requisitesOf } from "./requisites";
+import { creditPoints } from "./subjects";
+import type { DirectedEdge, Requisite } from "./types";
 
 /** A strategy to traverse a directed graph.
  * * `"web"`: a connected graph of all reachable vertices from `id`.
@@ -8,79 +11,171 @@ import makeAsynchronous from "make-asynchronous";
  */
 export type Traversal = "web" | "ancestors" | "descendants" | "tree";
 
-/** Traverse the graph `edges` starting from `id`, with
- * `mode` determining the returned vertex cover.
+/**
+ * The most hops a traversal follows in each direction.
  */
-export function traverse(
+export interface DirectionDepths {
+  /** The most hops up to dependents. */
+  ancestors: number;
+  /** The most hops down to prerequisites. */
+  descendants: number;
+}
+
+/**
+ * Returns the hop distance of every vertex reachable from `id` by following
+ * `next`, up to `maxDepth` hops. `id` is only included if it lies on a cycle.
+ */
+const reach = (
   id: number,
-  edges: DirectedEdge[],
-  mode: Traversal
-): Set<number> {
-  if (mode == "tree") {
-    return new Set<number>([
-      id,
-      ...traverse(id, edges, "ancestors"),
-      ...traverse(id, edges, "descendants"),
-    ]);
+  next: (vertex: number) => Iterable<number>,
+  maxDepth: number
+) => {
+  const distances = new Map<number, number>();
+  let layer = [id];
+  for (let depth = 1; depth <= maxDepth && layer.length > 0; depth++) {
+    const nextLayer: number[] = [];
+    for (const vertex of layer) {
+      for (const neighbour of next(vertex)) {
+        if (!distances.has(neighbour)) {
+          distances.set(neighbour, depth);
+          nextLayer.push(neighbour);
+        }
+      }
+    }
+    layer = nextLayer;
   }
+  return distances;
+};
 
-  const visited = new Set<number>([id]);
+// A walk from the start of a traversal, with the hops it took each way
+interface Walk {
+  vertex: number;
+  up: number;
+  down: number;
+}
 
-  let running = true;
-  while (running) {
-    // Just try looping through all edges once
-    // If a valid edge is found, then it's possible a previous once has
-    // become valid and running will become true
-    // to allow another iteration
-    running = false;
-    // Go through each directed each in the graph
-    for (const edge of edges) {
-      // If the current edge points to an already visited vertex
-      if (
-        (mode == "ancestors" || mode == "web") &&
-        !visited.has(edge.source) &&
-        visited.has(edge.target)
-      ) {
-        // Add the edge's origin vertex
-        visited.add(edge.source);
-        // Keep scanning in case of more valid edges
-        running = true;
-      }
-      // If the current edge leads from an already visited vertex
-      if (
-        (mode == "descendants" || mode == "web") &&
-        !visited.has(edge.target) &&
-        visited.has(edge.source)
-      ) {
-        // Add the edge's target vertex
-        visited.add(edge.target);
-        // Keep scanning in case of more valid edges
-        running = true;
+/**
+ * Returns the hop distance of every vertex reachable from `id` along edges
+ * in either direction, taking at most `depths.ancestors` hops up and
+ * `depths.descendants` hops down. `id` is only included if it lies on a
+ * cycle.
+ */
+const reachBoth = (id: number, graph: Graph, depths: DirectionDepths) => {
+  const distances = new Map<number, number>();
+  // The walks that reached each vertex, less those taking at least as many
+  // hops both ways as another. Unlimited directions are not counted.
+  const walks = new Map<number, Walk[]>();
+  const visit = (walk: Walk) => {
+    if (walk.up > depths.ancestors || walk.down > depths.descendants) {
+      return false;
+    }
+    const known = walks.get(walk.vertex) ?? [];
+    if (known.some(({ up, down }) => up <= walk.up && down <= walk.down)) {
+      return false;
+    }
+    walks.set(walk.vertex, [...known, walk]);
+    return true;
+  };
+  const hop = (hops: number, depth: number) =>
+    depth === Infinity ? 0 : hops + 1;
+
+  let layer: Walk[] = [{ vertex: id, up: 0, down: 0 }];
+  visit(layer[0]);
+  for (let distance = 1; layer.length > 0; distance++) {
+    const nextLayer: Walk[] = [];
+    for (const { vertex, up, down } of layer) {
+      const steps = [
+        ...graph.parents(vertex).map((parent) => ({
+          vertex: parent,
+          up: hop(up, depths.ancestors),
+          down,
+        })),
+        ...graph.children(vertex).map((child) => ({
+          vertex: child,
+          up,
+          down: hop(down, depths.descendants),
+        })),
+      ];
+      for (const step of steps.filter(visit)) {
+        if (!distances.has(step.vertex)) {
+          distances.set(step.vertex, distance);
+        }
+        nextLayer.push(step);
       }
     }
+    layer = nextLayer;
   }
-
-  visited.delete(id);
-
-  return visited;
-}
+  return distances;
+};
 
 /**
- * Structure of a node in the graph.
+ * Returns the hop distance from `id` of every vertex visited by a traversal.
+ * @param id The id of the starting vertex.
+ * @param graph The indexed graph.
+ * @param mode The traversal, see `Traversal`.
+ * @param maxDepth The most hops to follow, every hop by default, or the
+ * most in each direction.
+ * @returns The distance of each visited vertex, `id` included at 0.
  */
-interface Node {
-  id: number;
-  label: string | null;
-  url: string | null;
-  course: string | null;
+export function hopDistances(
+  id: number,
+  graph: Graph,
+  mode: Traversal,
+  maxDepth: number | DirectionDepths = Infinity
+): Map<number, number> {
+  // Follow the edges leading to and from a vertex
+  const up = (vertex: number) => graph.parents(vertex);
+  const down = (vertex: number) => graph.children(vertex);
+  const depths =
+    typeof maxDepth === "number"
+      ? { ancestors: maxDepth, descendants: maxDepth }
+      : maxDepth;
+
+  let distances: Map<number, number>;
+  switch (mode) {
+    case "ancestors":
+      distances = reach(id, up, depths.ancestors);
+      break;
+    case "descendants":
+      distances = reach(id, down, depths.descendants);
+      break;
+    case "web":
+      distances =
+        typeof maxDepth === "number"
+          ? reach(id, (vertex) => [...up(vertex), ...down(vertex)], maxDepth)
+          : reachBoth(id, graph, depths);
+      break;
+    case "tree":
+      distances = reach(id, down, depths.descendants);
+      reach(id, up, depths.ancestors).forEach((distance, vertex) =>
+        distances.set(
+          vertex,
+          Math.min(distance, distances.get(vertex) ?? Infinity)
+        )
+      );
+      break;
+  }
+  distances.set(id, 0);
+  return distances;
 }
 
-/**
- * Structure of an edge in the graph.
+/** Traverse `graph` starting from `id`, with
+ * `mode` determining the returned vertex cover,
+ * following at most `maxDepth` hops.
  */
-interface DirectedEdge {
-  source: number;
-  target: number;
+export function traverse(
+  id: number,
+  graph: Graph,
+  mode: Traversal,
+  maxDepth: number | DirectionDepths = Infinity
+): Set<number> {
+  const visited = new Set(hopDistances(id, graph, mode, maxDepth).keys());
+
+  if (mode != "tree") {
+    visited.delete(id);
+  }
+
+  return visited;
 }
 
 /**
@@ -96,209 +191,264 @@ const uniqueNumbers = (values: number[]) => {
 /**
  * Returns the parents of a node in the graph.
  * @param id The id of the node to find the parents of.
- * @param edges The edges in the graph.
+ * @param graph The indexed graph.
  * @returns The parents of the node with the given id.
  */
-export function parents(id: number, edges: DirectedEdge[]): number[] {
-  return uniqueNumbers(
-    edges.filter((edge) => edge.target === id).map((edge) => edge.source)
-  );
+export function parents(id: number, graph: Graph): number[] {
+  return [...graph.parents(id)];
 }
 
 /**
  * Returns the ancestors of a node in the graph.
- * @param id The id of the node to find the children of.
- * @param edges The edges in the graph.
- * @returns The ids of the children of the node.
+ * @param id The id of the node to find the ancestors of.
+ * @param graph The indexed graph.
+ * @param maxDepth The most hops to follow, every hop by default.
+ * @returns The ids of the ancestors of the node.
  */
-export function ancestors(id: number, edges: DirectedEdge[]): number[] {
-  const parentsOfId = parents(id, edges);
-  const queue = [...parentsOfId];
-  const ancestorsArray = new Set<number>();
-  while (queue.length > 0) {
-    const nextId = queue.pop()!;
-    ancestorsArray.add(nextId);
-    const parentsOfNextId = parents(nextId, edges);
-    parentsOfNextId.forEach((parentId) => {
-      if (!ancestorsArray.has(parentId)) {
-        queue.push(parentId);
-      }
-    });
-  }
-  return Array.from(ancestorsArray);
+export function ancestors(
+  id: number,
+  graph: Graph,
+  maxDepth = Infinity
+): number[] {
+  return Array.from(
+    reach(id, (vertex) => graph.parents(vertex), maxDepth).keys()
+  );
 }
 
 /**
  * Returns the children of a node in the graph.
  * @param id The id of the node to find the children of.
- * @param edges The edges in the graph.
+ * @param graph The indexed graph.
  * @returns The ids of the children of the node.
  */
-export function children(id: number, edges: DirectedEdge[]): number[] {
-  return uniqueNumbers(
-    edges.filter((edge) => edge.source === id).map((edge) => edge.target)
-  );
+export function children(id: number, graph: Graph): number[] {
+  return [...graph.children(id)];
 }
 
 /**
  * Returns the descendants of a node in the graph.
  * @param id The id of the node to find the descendants of.
- * @param edges The edges in the graph.
+ * @param graph The indexed graph.
+ * @param maxDepth The most hops to follow, every hop by default.
  * @returns The ids of the descendants of the node.
  */
-export function descendants(id: number, edges: DirectedEdge[]): number[] {
-  const childrenOfId = children(id, edges);
-  const queue = [...childrenOfId];
-  const descendantsArray = new Set<number>();
-  while (queue.length > 0) {
-    const nextId = queue.pop()!;
-    descendantsArray.add(nextId);
-    const childrenOfNextId = children(nextId, edges);
-    childrenOfNextId.forEach((childId) => {
-      if (!descendantsArray.has(childId)) {
-        queue.push(childId);
-      }
-    });
-  }
-  return Array.from(descendantsArray);
+export function descendants(
+  id: number,
+  graph: Graph,
+  maxDepth = Infinity
+): number[] {
+  return Array.from(
+    reach(id, (vertex) => graph.children(vertex), maxDepth).keys()
+  );
 }
 
 /**
  * Returns the descendants of a node in the graph along with the node itself.
  * @param id The id of the node to find the descendants of.
- * @param edges The edges in the graph.
+ * @param graph The indexed graph.
  * @returns The ids of the descendants of the node and the id of the node.
  */
-export function descendantsAndSelf(
-  id: number,
-  edges: DirectedEdge[]
-): number[] {
-  return uniqueNumbers([id].concat(descendants(id, edges)));
+export function descendantsAndSelf(id: number, graph: Graph): number[] {
+  return uniqueNumbers([id].concat(descendants(id, graph)));
 }
 
 /**
  * Returns the parents of a node in the graph along with the node itself.
  * @param id The id of the node to find the parents of.
- * @param edges The edges in the graph.
+ * @param graph The indexed graph.
  * @returns The ids of the parents of the node and the id of the node.
  */
-export function parentsAndSelf(id: number, edges: DirectedEdge[]): number[] {
-  return uniqueNumbers([id].concat(parents(id, edges)));
+export function parentsAndSelf(id: number, graph: Graph): number[] {
+  return uniqueNumbers([id].concat(parents(id, graph)));
 }
 
 /**
  * Returns the siblings of a node in the graph.
  * @param id The id of the node to find the siblings of.
- * @param edges The edges in the graph.
+ * @param graph The indexed graph.
  * @returns The ids of the siblings of the node.
  */
-export function siblings(id: number, edges: DirectedEdge[]): number[] {
-  const parentsOfId = parents(id, edges);
+export function siblings(id: number, graph: Graph): number[] {
+  const parentsOfId = parents(id, graph);
   return uniqueNumbers(
     parentsOfId
-      .flatMap((parent) => children(parent, edges))
+      .flatMap((parent) => children(parent, graph))
       .filter((child) => child !== id)
   );
 }
 
 /**
- * Returns the cousins of a node in the graph along with the node itself.
+ * Returns the cousins of a node in the graph: the descendants of its
+ * siblings.
  * @param id The id of the node to find the cousins of.
- * @param edges The edges in the graph.
- * @returns The ids of the cousins of the node.
+ * @param graph The indexed graph.
+ * @returns The ids of the cousins of the node, without the node itself.
  */
-export function cousins(id: number, edges: DirectedEdge[]): number[] {
-  const siblingsOfId = siblings(id, edges);
+export function cousins(id: number, graph: Graph): number[] {
+  const siblingsOfId = siblings(id, graph);
   return uniqueNumbers(
-    siblingsOfId.flatMap((sibling) => descendants(sibling, edges))
-  );
+    siblingsOfId.flatMap((sibling) => descendants(sibling, graph))
+  ).filter((cousin) => cousin !== id);
 }
 
 /**
  * Returns the relations of a node in the graph.
  * @param id The id of the node to find all the relations of.
- * @param edges The edges in the graph.
+ * @param graph The indexed graph.
  * @returns The ids of all the relations of the node.
  */
-export function related(id: number, edges: DirectedEdge[]): number[] {
-  return uniqueNumbers(ancestors(id, edges).concat(descendants(id, edges)));
+export function related(id: number, graph: Graph): number[] {
+  return uniqueNumbers(ancestors(id, graph).concat(descendants(id, graph)));
 }
 
 /**
  * Returns the relations of a node in the graph along with the node itself.
  * @param id The id of the node to find the relations of.
- * @param edges The edges in the graph.
+ * @param graph The indexed graph.
  * @returns The ids of the relations of the node and the id of the node.
  */
-export function relatedAndSelf(id: number, edges: DirectedEdge[]): number[] {
-  return uniqueNumbers(related(id, edges).concat(id));
+export function relatedAndSelf(id: number, graph: Graph): number[] {
+  return uniqueNumbers(related(id, graph).concat(id));
 }
 
 /**
  * Returns the ancestors of a node in the graph along with the node itself.
  * @param id The id of the node to find the ancestors of.
- * @param edges The edges in the graph.
+ * @param graph The indexed graph.
  * @returns The ids of the ancestors of the node and the id of the node.
  */
-export function ancestorsAndSelf(id: number, edges: DirectedEdge[]): number[] {
-  return uniqueNumbers(ancestors(id, edges).concat(id));
+export function ancestorsAndSelf(id: number, graph: Graph): number[] {
+  return uniqueNumbers(ancestors(id, graph).concat(id));
 }
 
 /**
  * Returns the cousins of a node in the graph along with the node itself.
  * @param id The id of the node to find the cousins of.
- * @param edges The edges in the graph.
+ * @param graph The indexed graph.
  * @returns The ids of the cousins of the node and the id of the node.
  */
-export function cousinsAndSelf(id: number, edges: DirectedEdge[]): number[] {
-  return uniqueNumbers(cousins(id, edges).concat(id));
+export function cousinsAndSelf(id: number, graph: Graph): number[] {
+  return uniqueNumbers(cousins(id, graph).concat(id));
 }
 
 /**
  * Returns the children of a node in the graph along with the node itself.
  * @param id The id of the node to find the siblings of.
- * @param edges The edges in the graph.
+ * @param graph The indexed graph.
  * @returns The ids of the siblings of the node and the id of the node.
  */
-export function siblingsAndSelf(id: number, edges: DirectedEdge[]): number[] {
-  return uniqueNumbers(siblings(id, edges).concat(id));
+export function siblingsAndSelf(id: number, graph: Graph): number[] {
+  return uniqueNumbers(siblings(id, graph).concat(id));
 }
 
 /**
  * Returns the children of a node in the graph along with the node itself.
  * @param id The id of the node to find the children of.
- * @param edges The edges in the graph.
+ * @param graph The indexed graph.
  * @returns The ids of the children of the node and the id of the node.
  */
-export function childrenAndSelf(id: number, edges: DirectedEdge[]): number[] {
-  return uniqueNumbers(children(id, edges).concat(id));
+export function childrenAndSelf(id: number, graph: Graph): number[] {
+  return uniqueNumbers(children(id, graph).concat(id));
 }
 
 /**
  * Returns all the elements in the graph.
- * @param edges The edges in the graph.
+ * @param graph The indexed graph.
  * @returns The ids of all the graph elements
  */
-export function everything(edges: DirectedEdge[]): number[] {
-  return uniqueNumbers(edges.flatMap((edge) => [edge.source, edge.target]));
+export function everything(graph: Graph): number[] {
+  return graph.vertices();
 }
 
 /**
  * Returns the nodes that are not connected to any other nodes.
- * @param edges The edges in the graph.
+ * @param graph The indexed graph.
  * @returns The ids of the nodes that are not connected to any other nodes.
  */
-export function isolatedNodes(edges: DirectedEdge[]): number[] {
-  return uniqueNumbers(
-    everything(edges).filter((id) => related(id, edges).length === 0)
-  );
+export function isolatedNodes(graph: Graph): number[] {
+  // `vertices` only holds the endpoints of edges, look through every node
+  return graph.nodes
+    .map((node) => node.id)
+    .filter(
+      (id) => graph.parents(id).length === 0 && graph.children(id).length === 0
+    );
+}
+
+/** A relation of the vertices around `id` to it, either a `Traversal` or
+ * * `"self"`: `id` itself.
+ * * `"parents"`, `"children"`: the direct neighbours of `id`.
+ * * `"siblings"`, `"cousins"`: see `siblings` and `cousins`.
+ * * `"related"`: the ancestors and descendants of `id`.
+ * * `"isolated"`: every vertex without edges, related to `id` or not.
+ */
+export type Relation =
+  | Traversal
+  | "self"
+  | "parents"
+  | "children"
+  | "siblings"
+  | "cousins"
+  | "related"
+  | "isolated";
+
+/**
+ * Every relation, closest first.
+ */
+export const RELATIONS: readonly Relation[] = [
+  "self",
+  "children",
+  "parents",
+  "siblings",
+  "descendants",
+  "ancestors",
+  "cousins",
+  "related",
+  "tree",
+  "web",
+  "isolated",
+];
+
+/**
+ * Returns the vertices in a relation to a node.
+ * @param id The id of the node.
+ * @param graph The indexed graph.
+ * @param relation The relation, see `Relation`.
+ * @param maxDepth The most hops to follow for a traversal, every hop by
+ * default.
+ * @returns The ids of the vertices in the relation.
+ */
+export function relatives(
+  id: number,
+  graph: Graph,
+  relation: Relation,
+  maxDepth = Infinity
+): number[] {
+  switch (relation) {
+    case "self":
+      return [id];
+    case "parents":
+      return parents(id, graph);
+    case "children":
+      return children(id, graph);
+    case "siblings":
+      return siblings(id, graph);
+    case "cousins":
+      return cousins(id, graph);
+    case "related":
+      return related(id, graph);
+    case "isolated":
+      return isolatedNodes(graph);
+    default:
+      return Array.from(traverse(id, graph, relation, maxDepth));
+  }
 }
 
 /**
- * Basic implementation of a priority queue.
+ * Priority queue backed by a binary heap, dequeuing the smallest element
+ * according to `comparator` first.
  */
 export class PriorityQueue<T> {
-  private readonly _queue: T[] = [];
+  private readonly _heap: T[] = [];
   private readonly _comparator: (a: T, b: T) => number;
 
   constructor(comparator: (a: T, b: T) => number) {
@@ -306,59 +456,361 @@ export class PriorityQueue<T> {
   }
 
   public enqueue(element: T): void {
-    this._queue.push(element);
-    this._queue.sort(this._comparator);
+    const heap = this._heap;
+    heap.push(element);
+    // Sift the new element up until its parent is no larger
+    let index = heap.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this._comparator(heap[index], heap[parent]) >= 0) {
+        break;
+      }
+      [heap[index], heap[parent]] = [heap[parent], heap[index]];
+      index = parent;
+    }
   }
 
   public dequeue(): T | undefined {
-    return this._queue.shift();
+    const heap = this._heap;
+    if (heap.length <= 1) {
+      return heap.pop();
+    }
+    const top = heap[0];
+    heap[0] = heap.pop()!;
+    // Sift the moved element down until both children are no smaller
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (
+        left < heap.length &&
+        this._comparator(heap[left], heap[smallest]) < 0
+      ) {
+        smallest = left;
+      }
+      if (
+        right < heap.length &&
+        this._comparator(heap[right], heap[smallest]) < 0
+      ) {
+        smallest = right;
+      }
+      if (smallest === index) {
+        return top;
+      }
+      [heap[index], heap[smallest]] = [heap[smallest], heap[index]];
+      index = smallest;
+    }
   }
 
   public get length(): number {
-    return this._queue.length;
+    return this._heap.length;
+  }
+}
+
+/**
+ * Returns the cost of following the edge from `source` to `target`.
+ */
+export type EdgeWeight = (
+  source: number,
+  target: number,
+  graph: Graph
+) => number;
+
+export type EdgeWeightName = "hops" | "creditPoints";
+
+/**
+ * Ready made edge weights.
+ * * `hops`: every edge costs 1.
+ * * `creditPoints`: an edge costs the credit points of the subject it leads to.
+ */
+export const edgeWeights: Record<EdgeWeightName, EdgeWeight> = {
+  hops: () => 1,
+  creditPoints: (_source, target, graph) => creditPoints(graph.node(target)),
+};
+
+/**
+ * A path through the graph and its total cost.
+ */
+export interface WeightedPath {
+  path: number[];
+  cost: number;
+}
+
+/**
+ * Dijkstra's algorithm, avoiding the given vertices and edges.
+ * @returns The cheapest path, or `undefined` if `target` is unreachable.
+ */
+function cheapestPath(
+  source: number,
+  target: number,
+  graph: Graph,
+  weight: EdgeWeight,
+  blockedVertices: ReadonlySet<number> = new Set(),
+  blockedEdges: ReadonlySet<string> = new Set()
+): WeightedPath | undefined {
+  const distances = new Map<number, number>([[source, 0]]);
+  const previous = new Map<number, number>();
+  const visited = new Set<number>();
+  const queue = new PriorityQueue<[number, number]>((a, b) => a[0] - b[0]);
+  queue.enqueue([0, source]);
+  while (queue.length > 0) {
+    const [distance, current] = queue.dequeue()!;
+    if (current === target) {
+      const path = [target];
+      while (path[0] !== source) {
+        path.unshift(previous.get(path[0])!);
+      }
+      return { path, cost: distance };
+    }
+    if (visited.has(current)) {
+      continue;
+    }
+    visited.add(current);
+    for (const child of graph.children(current)) {
+      if (
+        visited.has(child) ||
+        blockedVertices.has(child) ||
+        blockedEdges.has(`${current}->${child}`)
+      ) {
+        continue;
+      }
+      const next = distance + weight(current, child, graph);
+      if (next < (distances.get(child) ?? Infinity)) {
+        distances.set(child, next);
+        previous.set(child, current);
+        queue.enqueue([next, child]);
+      }
+    }
   }
+  return undefined;
 }
 
+/**
+ * Returns the total cost of a path.
+ */
+const pathCost = (path: number[], graph: Graph, weight: EdgeWeight) =>
+  path.slice(1).reduce((cost, id, i) => cost + weight(path[i], id, graph), 0);
+
 /**
  * Returns the shortest path between two nodes in the graph.
  * @param source The id of the source node.
  * @param target The id of the target node.
- * @param edges The edges in the graph.
+ * @param graph The indexed graph.
+ * @param weight The cost of each edge, one per edge by default.
  * @returns The shortest path between the source and target nodes.
  */
 export function dijkstraShortestPath(
   source: number,
   target: number,
-  edges: DirectedEdge[]
+  graph: Graph,
+  weight: EdgeWeight = edgeWeights.hops
 ): number[] {
-  const queue = new PriorityQueue<[number, number[]]>((a, b) => a[0] - b[0]);
+  return cheapestPath(source, target, graph, weight)?.path ?? [];
+}
+
+/**
+ * Returns up to `k` loopless paths between two nodes, cheapest first, using
+ * Yen's algorithm.
+ * @param source The id of the source node.
+ * @param target The id of the target node.
+ * @param k The maximum number of paths.
+ * @param graph The indexed graph.
+ * @param weight The cost of each edge, one per edge by default.
+ * @returns The paths and their costs.
+ */
+export function kShortestPaths(
+  source: number,
+  target: number,
+  k: number,
+  graph: Graph,
+  weight: EdgeWeight = edgeWeights.hops
+): WeightedPath[] {
+  const first = cheapestPath(source, target, graph, weight);
+  if (!first || k < 1) {
+    return [];
+  }
+  const found: WeightedPath[] = [first];
+  const candidates: WeightedPath[] = [];
+  const seen = new Set<string>([first.path.join(",")]);
+
+  while (found.length < k) {
+    const last = found[found.length - 1].path;
+    for (let i = 0; i < last.length - 1; i++) {
+      const spur = last[i];
+      const root = last.slice(0, i + 1);
+      // Leave the edges other paths take from the same root
+      const blockedEdges = new Set<string>();
+      for (const { path } of found) {
+        if (path.length > i && root.every((id, j) => path[j] === id)) {
+          blockedEdges.add(`${path[i]}->${path[i + 1]}`);
+        }
+      }
+      // Keep the path loopless
+      const blockedVertices = new Set(root.slice(0, -1));
+      const spurPath = cheapestPath(
+        spur,
+        target,
+        graph,
+        weight,
+        blockedVertices,
+        blockedEdges
+      );
+      if (!spurPath) {
+        continue;
+      }
+      const path = root.slice(0, -1).concat(spurPath.path);
+      const key = path.join(",");
+      if (!seen.has(key)) {
+        seen.add(key);
+        candidates.push({ path, cost: pathCost(path, graph, weight) });
+      }
+    }
+    if (candidates.length === 0) {
+      break;
+    }
+    candidates.sort((a, b) => a.cost - b.cost);
+    found.push(candidates.shift()!);
+  }
+  return found;
+}
+
+/**
+ * Returns every path between two nodes that is as cheap as the shortest one.
+ * @param source The id of the source node.
+ * @param target The id of the target node.
+ * @param graph The indexed graph.
+ * @param weight The cost of each edge, one per edge by default.
+ * @param limit The maximum number of paths to return.
+ * @returns The shortest paths.
+ */
+export function allShortestPaths(
+  source: number,
+  target: number,
+  graph: Graph,
+  weight: EdgeWeight = edgeWeights.hops,
+  limit = 100
+): number[][] {
+  // Dijkstra's algorithm remembering every predecessor on a cheapest path
+  const distances = new Map<number, number>([[source, 0]]);
+  const previous = new Map<number, number[]>();
   const visited = new Set<number>();
-  queue.enqueue([0, [source]]);
+  const queue = new PriorityQueue<[number, number]>((a, b) => a[0] - b[0]);
+  queue.enqueue([0, source]);
   while (queue.length > 0) {
-    const [distance, path] = queue.dequeue()!;
-    const current = path[path.length - 1];
-    if (current === target) {
-      return path;
-    }
+    const [distance, current] = queue.dequeue()!;
     if (visited.has(current)) {
       continue;
     }
     visited.add(current);
-    children(current, edges).forEach((child) => {
-      queue.enqueue([distance + 1, path.concat(child)]);
-    });
+    for (const child of graph.children(current)) {
+      const next = distance + weight(current, child, graph);
+      const known = distances.get(child) ?? Infinity;
+      if (next < known) {
+        distances.set(child, next);
+        previous.set(child, [current]);
+        queue.enqueue([next, child]);
+      } else if (next === known) {
+        previous.get(child)!.push(current);
+      }
+    }
   }
-  return [];
+  if (!distances.has(target)) {
+    return [];
+  }
+
+  // Walk the predecessors back from the target
+  const paths: number[][] = [];
+  const walk = (id: number, suffix: number[]) => {
+    if (paths.length >= limit) {
+      return;
+    }
+    if (id === source) {
+      paths.push([source, ...suffix]);
+      return;
+    }
+    for (const parent of previous.get(id) ?? []) {
+      walk(parent, [id, ...suffix]);
+    }
+  };
+  walk(target, []);
+  return paths;
+}
+
+/**
+ * Returns every vertex on some path between two nodes.
+ * @param source The id of the source node.
+ * @param target The id of the target node.
+ * @param graph The indexed graph.
+ * @returns The ids of the vertices between the nodes, including both.
+ */
+export function between(
+  source: number,
+  target: number,
+  graph: Graph
+): number[] {
+  const before = new Set(ancestors(target, graph));
+  const inside = descendants(source, graph).filter((id) => before.has(id));
+  return uniqueNumbers([source, ...inside, target]);
+}
+
+/** A way to combine the vertex sets of several nodes.
+ * * `"union"`: vertices in any of the sets.
+ * * `"intersection"`: vertices in every set.
+ * * `"symmetricDifference"`: vertices in exactly one set.
+ */
+export type SetOperation = "union" | "intersection" | "symmetricDifference";
+
+/**
+ * Returns which of several vertex sets each vertex belongs to.
+ * @param sets The vertex sets.
+ * @returns The indices of the sets containing each vertex, by vertex id.
+ */
+export function membership(sets: number[][]): Map<number, number[]> {
+  const members = new Map<number, number[]>();
+  sets.forEach((set, i) => {
+    for (const id of uniqueNumbers(set)) {
+      const indices = members.get(id);
+      if (indices === undefined) {
+        members.set(id, [i]);
+      } else {
+        indices.push(i);
+      }
+    }
+  });
+  return members;
+}
+
+/**
+ * Combines several vertex sets.
+ * @param sets The vertex sets.
+ * @param operation How to combine the sets.
+ * @returns The ids of the vertices in the combined set.
+ */
+export function combine(sets: number[][], operation: SetOperation): number[] {
+  const keep = (count: number) => {
+    switch (operation) {
+      case "union":
+        return count > 0;
+      case "intersection":
+        return count === sets.length;
+      case "symmetricDifference":
+        return count === 1;
+    }
+  };
+  return Array.from(membership(sets))
+    .filter(([, indices]) => keep(indices.length))
+    .map(([id]) => id);
 }
 
 /**
  * Returns the postman algorithm for the graph.
- * @param edges The edges in the graph.
+ * @param graph The indexed graph.
  * @returns The postman of the graph as matrix.
  */
-export function postman(edges: DirectedEdge[]): number[][] {
-  const oddNodes = everything(edges).filter(
-    (id) => related(id, edges).length % 2 === 1
+export function postman(graph: Graph): number[][] {
+  const oddNodes = everything(graph).filter(
+    (id) => related(id, graph).length % 2 === 1
   );
   const oddPairs = oddNodes.flatMap((id) => {
     return oddNodes
@@ -366,62 +818,272 @@ export function postman(edges: DirectedEdge[]): number[][] {
       .map((otherId) => [id, otherId]);
   });
   const paths = oddPairs.map(([source, target]) => {
-    return dijkstraShortestPath(source, target, edges);
+    return dijkstraShortestPath(source, target, graph);
   });
   return paths;
 }
 
 /**
  * Returns the postman tour of the graph.
- * @param edges The edges in the graph.
+ * @param graph The indexed graph.
  * @returns The postman tour of the graph.
  */
-export function postmanTour(edges: DirectedEdge[]): number[] {
-  const paths = postman(edges);
+export function postmanTour(graph: Graph): number[] {
+  const paths = postman(graph);
   const tour = paths.flat();
   return uniqueNumbers(tour);
 }
 
 /**
- * Returns if the graph has a cycle.
- * @param edges The edges in the graph.
+ * Returns if the graph has a directed cycle.
+ * @param graph The indexed graph.
  * @returns If the graph has a cycle.
  */
-export function hasCycle(edges: DirectedEdge[]): boolean {
-  const nodes = everything(edges);
-  const visited = new Set<number>();
-  const stack = new Set<number>();
-  for (const node of nodes) {
-    if (visited.has(node)) {
+export function hasCycle(graph: Graph): boolean {
+  return cycles(graph).length > 0;
+}
+
+/**
+ * Returns the graph as if it were undirected.
+ * @param graph The indexed graph.
+ * @returns A graph with every edge also present in the reverse direction.
+ */
+export function undirected(graph: Graph): Graph {
+  return new Graph({
+    nodes: [...graph.nodes],
+    links: graph.links.flatMap((edge) => [
+      edge,
+      { ...edge, source: edge.target, target: edge.source },
+    ]),
+  });
+}
+
+/**
+ * The progress of a subject given a set of completed subjects.
+ * * `"completed"`: the subject has been completed.
+ * * `"excluded"`: the subject and a completed subject are antirequisites of
+ *   each other, so it cannot be counted.
+ * * `"available"`: the completed subjects satisfy the prerequisite rule of
+ *   the subject, see `isSatisfied`.
+ * * `"locked"`: the completed subjects do not satisfy the rule.
+ */
+export type SubjectStatus = "completed" | "excluded" | "available" | "locked";
+
+/**
+ * Returns the progress of a subject.
+ * @param id The id of the subject.
+ * @param completed The ids of the completed subjects.
+ * @param graph The indexed graph.
+ * @returns The status of the subject.
+ */
+export function subjectStatus(
+  id: number,
+  completed: ReadonlySet<number>,
+  graph: Graph
+): SubjectStatus {
+  if (completed.has(id)) {
+    return "completed";
+  }
+  const { prerequisites, antirequisites = [] } = requisitesOf(id, graph);
+  // Either side of an antirequisite may list it
+  const excluded =
+    antirequisites.some((other) => completed.has(other)) ||
+    [...completed].some((other) =>
+      requisitesOf(other, graph).antirequisites?.includes(id)
+    );
+  if (excluded) {
+    return "excluded";
+  }
+  return !prerequisites || isSatisfied(prerequisites, completed, graph)
+    ? "available"
+    : "locked";
+}
+
+/**
+ * Returns if a requisite rule asks for credit points anywhere.
+ */
+function countsCredits(requisite: Requisite | undefined): boolean {
+  switch (requisite?.type) {
+    case "credits":
+      return true;
+    case "and":
+    case "or":
+      return requisite.of.some(countsCredits);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Returns the subjects unlocked by a set of completed subjects: subjects
+ * that are not completed, that no completed subject excludes and whose
+ * prerequisite rules the completed subjects satisfy. Only parents of a
+ * completed subject and subjects asking for credit points can be unlocked.
+ * @param completed The ids of the completed subjects.
+ * @param graph The indexed graph.
+ * @returns The ids of the newly available subjects.
+ */
+export function frontier(
+  completed: ReadonlySet<number>,
+  graph: Graph
+): number[] {
+  const byCredits = graph.nodes
+    .filter(({ id }) => countsCredits(requisitesOf(id, graph).prerequisites))
+    .map(({ id }) => id);
+  return uniqueNumbers(
+    [
+      ...[...completed].flatMap((id) => parents(id, graph)),
+      ...byCredits,
+    ].filter((id) => subjectStatus(id, completed, graph) === "available")
+  );
+}
+
+/**
+ * Returns the strongly connected components of the graph, using Tarjan's
+ * algorithm. Every vertex belongs to exactly one component.
+ * @param graph The indexed graph.
+ * @returns The ids of the members of each component.
+ */
+export function stronglyConnectedComponents(graph: Graph): number[][] {
+  const index = new Map<number, number>();
+  const lowLink = new Map<number, number>();
+  const onStack = new Set<number>();
+  const stack: number[] = [];
+  const components: number[][] = [];
+  let counter = 0;
+
+  for (const root of everything(graph)) {
+    if (index.has(root)) {
       continue;
     }
-    stack.add(node);
-    while (stack.size > 0) {
-      const current = stack.values().next().value;
-      stack.delete(current);
-      visited.add(current);
-      const children = related(current, edges);
-      for (const child of children) {
-        if (stack.has(child)) {
-          return true;
-        }
-        if (!visited.has(child)) {
-          stack.add(child);
+    // Iterative depth first search, remembering the next child to visit
+    const work: [number, number][] = [[root, 0]];
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const [id, next] = frame;
+      if (next === 0) {
+        index.set(id, counter);
+        lowLink.set(id, counter);
+        counter++;
+        stack.push(id);
+        onStack.add(id);
+      }
+      const childrenOfId = graph.children(id);
+      if (next < childrenOfId.length) {
+        frame[1]++;
+        const child = childrenOfId[next];
+        if (!index.has(child)) {
+          work.push([child, 0]);
+        } else if (onStack.has(child)) {
+          lowLink.set(id, Math.min(lowLink.get(id)!, index.get(child)!));
         }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1][0];
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(id)!));
+      }
+      if (lowLink.get(id) === index.get(id)) {
+        const component: number[] = [];
+        let member: number;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== id);
+        components.push(component);
       }
     }
   }
-  return false;
+  return components;
+}
+
+/**
+ * Returns the requisite cycles of the graph: components with more than one
+ * member, or a single member that requires itself.
+ * @param graph The indexed graph.
+ * @returns The ids of the members of each cycle.
+ */
+export function cycles(graph: Graph): number[][] {
+  return stronglyConnectedComponents(graph).filter(
+    (component) =>
+      component.length > 1 ||
+      graph.children(component[0]).includes(component[0])
+  );
+}
+
+/**
+ * A prerequisite link that follows from a chain of other prerequisites.
+ */
+export interface ImpliedLink {
+  edge: DirectedEdge;
+  /** The other prerequisite of the source the chain starts from. */
+  via: number;
 }
 
 /**
- * Returns the nodes of the graph as if it were undirected.
- * @param edges The edges in the graph.
- * @returns The nodes of the graph as if it were undirected.
+ * Returns the prerequisite links the transitive reduction of the graph leaves
+ * out: those to a subject already required by another prerequisite of the
+ * source. Only `"prerequisite"` links count, alternatives can be taken in
+ * place of each other. Links within a requisite cycle, or implied only
+ * through one, are kept: a cycle has no single reduction.
+ * @param graph The indexed graph.
+ * @returns The implied links, with the prerequisite each is implied through.
  */
-export function undirected(edges: DirectedEdge[]): DirectedEdge[] {
-  return edges.flatMap((edge) => [
-    edge,
-    { source: edge.target, target: edge.source },
-  ]);
+export function impliedLinks(graph: Graph): ImpliedLink[] {
+  const isPrerequisite = (edge: DirectedEdge) =>
+    (edge.kind ?? "prerequisite") === "prerequisite";
+  const components = new Map<number, number>();
+  stronglyConnectedComponents(graph).forEach((members, i) =>
+    members.forEach((id) => components.set(id, i))
+  );
+
+  const implied: ImpliedLink[] = [];
+  for (const { id: source } of graph.nodes) {
+    const edges = graph.outgoing(source).filter(isPrerequisite);
+    if (edges.length < 2) {
+      continue;
+    }
+
+    // The subjects each prerequisite requires, without passing the source
+    const reached = new Map<number, Set<number>>();
+    const reach = (start: number) => {
+      let seen = reached.get(start);
+      if (seen === undefined) {
+        seen = new Set([source]);
+        const queue = [start];
+        for (let i = 0; i < queue.length; i++) {
+          for (const edge of graph.outgoing(queue[i])) {
+            if (isPrerequisite(edge) && !seen.has(edge.target)) {
+              seen.add(edge.target);
+              queue.push(edge.target);
+            }
+          }
+        }
+        seen.delete(source);
+        reached.set(start, seen);
+      }
+      return seen;
+    };
+
+    for (const edge of edges) {
+      if (components.get(source) === components.get(edge.target)) {
+        continue;
+      }
+      // Prerequisites in a cycle with either end may be implied in turn by
+      // the link itself
+      const via = edges.find(
+        (other) =>
+          components.get(other.target) !== components.get(source) &&
+          components.get(other.target) !== components.get(edge.target) &&
+          reach(other.target).has(edge.target)
+      );
+      if (via) {
+        implied.push({ edge, via: via.target });
+      }
+    }
+  }
+  return implied;
 }
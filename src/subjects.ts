@@ -0,0 +1,58 @@
+import type { Node } from "./types";
+
+/**
+ * Returns the handbook code of a subject, taken from its handbook url.
+ * @param node The subject.
+ * @returns The code, e.g. `"010029"` for `.../subjects/010029.html`, or
+ * `null` if the subject has no handbook page.
+ */
+export function handbookCode(node: Node): string | null {
+  const match = node.url?.match(/\/subjects\/([^/]+)\.html$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Returns the text used to display a subject.
+ * @param node The subject.
+ * @returns The id and label of the subject, or only the id if it has no label.
+ */
+export function subjectName(node: Node): string {
+  return node.label ? `${node.id}: ${node.label}` : node.id.toString();
+}
+
+/**
+ * Credit points of a subject when the handbook does not list them.
+ */
+export const DEFAULT_CREDIT_POINTS = 6;
+
+/**
+ * Returns the credit points a subject is worth.
+ * @param node The subject.
+ * @returns The credit points, `DEFAULT_CREDIT_POINTS` if unknown.
+ */
+export function creditPoints(node: Node | undefined): number {
+  return node?.creditPoints ?? DEFAULT_CREDIT_POINTS;
+}
+
+/**
+ * Reads a pasted list of subjects, separated by commas or whitespace.
+ * @param text The pasted text.
+ * @param nodes The subjects that can be referenced.
+ * @returns The ids of the subjects, matched by id or handbook code.
+ */
+export function parseSubjectList(
+  text: string,
+  nodes: readonly Node[]
+): number[] {
+  const byCode = new Map<string, number>();
+  for (const node of nodes) {
+    const code = handbookCode(node);
+    if (code) {
+      byCode.set(code, node.id);
+    }
+  }
+  const ids = (text.match(/\d+/g) ?? []).map(
+    (token) => byCode.get(token) ?? parseInt(token)
+  );
+  return Array.from(new Set(ids));
+}
@@ -0,0 +1,68 @@
+/**
+ * Structure of a node in the graph.
+ */
+export interface Node {
+  id: number;
+  label: string | null;
+  url: string | null;
+  course: string | null;
+  /** Credit points the subject is worth, `DEFAULT_CREDIT_POINTS` if absent. */
+  creditPoints?: number;
+  /** Requisites of the subject, derived from its outgoing links if absent. */
+  requisites?: Requisites;
+}
+
+/**
+ * The relation an edge expresses between two subjects. Edges lead from a
+ * subject to its requisites.
+ * * `"prerequisite"`: `target` must be completed before `source`.
+ * * `"alternative"`: `target` is one option of an "or" prerequisite group.
+ * * `"corequisite"`: `target` must be completed before or alongside `source`.
+ * * `"antirequisite"`: `target` cannot be counted together with `source`.
+ */
+export type EdgeKind =
+  | "prerequisite"
+  | "alternative"
+  | "corequisite"
+  | "antirequisite";
+
+/**
+ * Structure of an edge in the graph, leading from a subject to one of its
+ * requisites.
+ */
+export interface DirectedEdge {
+  source: number;
+  target: number;
+  /** The relation of the edge, `"prerequisite"` if absent. */
+  kind?: EdgeKind;
+}
+
+/**
+ * A requisite rule of a subject.
+ * * `"subject"`: the subject `id` is completed.
+ * * `"and"`: every rule in `of` is satisfied.
+ * * `"or"`: at least one rule in `of` is satisfied.
+ * * `"credits"`: at least `points` credit points are completed.
+ */
+export type Requisite =
+  | { type: "subject"; id: number }
+  | { type: "and"; of: Requisite[] }
+  | { type: "or"; of: Requisite[] }
+  | { type: "credits"; points: number };
+
+/**
+ * All requisite rules of a subject.
+ */
+export interface Requisites {
+  prerequisites?: Requisite;
+  corequisites?: Requisite;
+  antirequisites?: number[];
+}
+
+/**
+ * Structure of a dataset as stored in `data.json`.
+ */
+export interface GraphData {
+  nodes: Node[];
+  links: DirectedEdge[];
+}
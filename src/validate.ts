@@ -0,0 +1,280 @@
+import { Graph } from "./graph";
+import { cycles, impliedLinks } from "./search";
+import type { DirectedEdge, GraphData, Node } from "./types";
+
+/**
+ * A problem found in a dataset.
+ * * `"dangling-edge"`: an endpoint of `edge` has no node entry.
+ * * `"duplicate-node"`: `count` nodes share the id `id`.
+ * * `"duplicate-edge"`: `edge` is listed `count` times.
+ * * `"self-loop"`: subject `id` requires itself.
+ * * `"missing-field"`: subject `id` has no value for `fields`.
+ * * `"cycle"`: the subjects `members` require each other.
+ * * `"redundant-requisite"`: `edge` lists a prerequisite that `via`, another
+ *   prerequisite of the same subject, already requires.
+ * * `"file-mismatch"`: `file` disagrees with `data.json` about `id`/`edge`.
+ */
+export type Issue =
+  | { type: "dangling-edge"; edge: DirectedEdge; missing: number[] }
+  | { type: "duplicate-node"; id: number; count: number }
+  | { type: "duplicate-edge"; edge: DirectedEdge; count: number }
+  | { type: "self-loop"; id: number }
+  | { type: "missing-field"; id: number; fields: MissingField[] }
+  | { type: "cycle"; members: number[] }
+  | { type: "redundant-requisite"; edge: DirectedEdge; via: number }
+  | FileMismatch;
+
+/**
+ * A difference between `data.json` and one of the split files.
+ */
+export type FileMismatch =
+  | {
+      type: "file-mismatch";
+      file: "nodes.json";
+      id: number;
+      problem: "only in data.json" | "only in nodes.json" | "differs";
+    }
+  | {
+      type: "file-mismatch";
+      file: "edges.json";
+      edge: DirectedEdge;
+      problem: "only in data.json" | "only in edges.json";
+    };
+
+export type IssueType = Issue["type"];
+
+export type MissingField = "label" | "url" | "course";
+
+/**
+ * Issue types that only describe incomplete or untidy data, the rest are
+ * errors.
+ */
+export const WARNING_TYPES: ReadonlySet<IssueType> = new Set([
+  "missing-field",
+  "redundant-requisite",
+]);
+
+/**
+ * Returns a key identifying an edge by its endpoints and kind.
+ */
+export const edgeKey = (edge: DirectedEdge) =>
+  `${edge.source}->${edge.target}:${edge.kind ?? "prerequisite"}`;
+
+/**
+ * Counts how many times each key occurs.
+ */
+function tally<T, K>(values: readonly T[], key: (value: T) => K) {
+  const counts = new Map<K, { value: T; count: number }>();
+  for (const value of values) {
+    const k = key(value);
+    const entry = counts.get(k);
+    if (entry) {
+      entry.count++;
+    } else {
+      counts.set(k, { value, count: 1 });
+    }
+  }
+  return counts;
+}
+
+/**
+ * Checks a `{nodes, links}` dataset for structural problems.
+ * @param data The dataset.
+ * @returns The problems found.
+ */
+export function validateGraph(data: GraphData): Issue[] {
+  const issues: Issue[] = [];
+  const ids = new Set(data.nodes.map((node) => node.id));
+
+  for (const { value, count } of tally(
+    data.nodes,
+    (node) => node.id
+  ).values()) {
+    if (count > 1) {
+      issues.push({ type: "duplicate-node", id: value.id, count });
+    }
+  }
+
+  for (const node of data.nodes) {
+    const fields = (["label", "url", "course"] as const).filter(
+      (field) => !node[field]
+    );
+    if (fields.length > 0) {
+      issues.push({ type: "missing-field", id: node.id, fields });
+    }
+  }
+
+  for (const { value: edge, count } of tally(data.links, edgeKey).values()) {
+    if (count > 1) {
+      issues.push({ type: "duplicate-edge", edge, count });
+    }
+    const missing = [edge.source, edge.target].filter((id) => !ids.has(id));
+    if (missing.length > 0) {
+      issues.push({
+        type: "dangling-edge",
+        edge,
+        missing: Array.from(new Set(missing)),
+      });
+    }
+    if (edge.source === edge.target) {
+      issues.push({ type: "self-loop", id: edge.source });
+    }
+  }
+
+  const graph = new Graph(data);
+  // Self-loops are reported on their own above
+  for (const members of cycles(graph)) {
+    if (members.length > 1) {
+      issues.push({ type: "cycle", members });
+    }
+  }
+
+  for (const { edge, via } of impliedLinks(graph)) {
+    issues.push({ type: "redundant-requisite", edge, via });
+  }
+
+  return issues;
+}
+
+/**
+ * Checks that the split `nodes.json` and `edges.json` files hold the same
+ * nodes and links as `data.json`.
+ * @param data The contents of `data.json`.
+ * @param nodes The contents of `nodes.json`.
+ * @param edges The contents of `edges.json`.
+ * @returns The differences found.
+ */
+export function compareSplitFiles(
+  data: GraphData,
+  nodes: Node[],
+  edges: DirectedEdge[]
+): FileMismatch[] {
+  const issues: FileMismatch[] = [];
+
+  const dataNodes = new Map(data.nodes.map((node) => [node.id, node]));
+  const splitNodes = new Map(nodes.map((node) => [node.id, node]));
+  for (const [id, node] of dataNodes) {
+    const other = splitNodes.get(id);
+    if (other === undefined) {
+      issues.push({
+        type: "file-mismatch",
+        file: "nodes.json",
+        id,
+        problem: "only in data.json",
+      });
+    } else if (JSON.stringify(node) !== JSON.stringify(other)) {
+      issues.push({
+        type: "file-mismatch",
+        file: "nodes.json",
+        id,
+        problem: "differs",
+      });
+    }
+  }
+  for (const id of splitNodes.keys()) {
+    if (!dataNodes.has(id)) {
+      issues.push({
+        type: "file-mismatch",
+        file: "nodes.json",
+        id,
+        problem: "only in nodes.json",
+      });
+    }
+  }
+
+  const dataEdges = tally(data.links, edgeKey);
+  const splitEdges = tally(edges, edgeKey);
+  for (const [key, { value: edge }] of dataEdges) {
+    if (!splitEdges.has(key)) {
+      issues.push({
+        type: "file-mismatch",
+        file: "edges.json",
+        edge,
+        problem: "only in data.json",
+      });
+    }
+  }
+  for (const [key, { value: edge }] of splitEdges) {
+    if (!dataEdges.has(key)) {
+      issues.push({
+        type: "file-mismatch",
+        file: "edges.json",
+        edge,
+        problem: "only in edges.json",
+      });
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Counts the issues of each type.
+ * @param issues The issues.
+ * @returns The number of issues by type, leaving out types with none.
+ */
+export function countIssues(
+  issues: Issue[]
+): Partial<Record<IssueType, number>> {
+  const counts: Partial<Record<IssueType, number>> = {};
+  for (const issue of issues) {
+    counts[issue.type] = (counts[issue.type] ?? 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Describes an issue in a single line.
+ * @param issue The issue.
+ * @returns The description.
+ */
+export function describeIssue(issue: Issue): string {
+  switch (issue.type) {
+    case "dangling-edge":
+      return `${issue.edge.source} -> ${
+        issue.edge.target
+      } references missing node ${issue.missing.join(", ")}`;
+    case "duplicate-node":
+      return `node ${issue.id} is listed ${issue.count} times`;
+    case "duplicate-edge":
+      return `${issue.edge.source} -> ${issue.edge.target} is listed ${issue.count} times`;
+    case "self-loop":
+      return `${issue.id} requires itself`;
+    case "missing-field":
+      return `node ${issue.id} has no ${issue.fields.join(", ")}`;
+    case "cycle":
+      return `${issue.members.join(", ")} require each other`;
+    case "redundant-requisite":
+      return `${issue.edge.source} lists ${issue.edge.target}, already required by ${issue.via}`;
+    case "file-mismatch":
+      return "id" in issue
+        ? `${issue.file}: node ${issue.id} ${issue.problem}`
+        : `${issue.file}: ${issue.edge.source} -> ${issue.edge.target} ${issue.problem}`;
+  }
+}
+
+/**
+ * Summarises issues for people, with a few examples of each type.
+ * @param issues The issues.
+ * @param examples The number of examples to list per type.
+ * @returns The summary, one line per type and example.
+ */
+export function summariseIssues(issues: Issue[], examples = 5): string {
+  if (issues.length === 0) {
+    return "No problems found.";
+  }
+  const lines: string[] = [];
+  const counts = countIssues(issues);
+  for (const [type, count] of Object.entries(counts) as [IssueType, number][]) {
+    const severity = WARNING_TYPES.has(type) ? "warning" : "error";
+    lines.push(`${severity}: ${count} ${type}`);
+    issues
+      .filter((issue) => issue.type === type)
+      .slice(0, examples)
+      .forEach((issue) => lines.push(`  ${describeIssue(issue)}`));
+    if (count > examples) {
+      lines.push(`  ... and ${count - examples} more`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,134 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  countChanges,
+  describeChange,
+  diffDatasets,
+  linkStatus,
+  summariseChanges,
+  unionGraph,
+} from "../src/diff";
+import type { GraphData, Node } from "../src/types";
+
+const subject = (id: number, label = `Subject ${id}`): Node => ({
+  id,
+  label,
+  url: null,
+  course: null,
+});
+
+// 1 requires 2, which requires 3
+const before: GraphData = {
+  nodes: [subject(1), subject(2), subject(3), subject(4)],
+  links: [
+    { source: 1, target: 2 },
+    { source: 2, target: 3 },
+  ],
+};
+
+// 4 is gone, 5 is new, 2 is renamed and 1 requires 3 directly
+const after: GraphData = {
+  nodes: [subject(1), subject(2, "Renamed"), subject(3), subject(5)],
+  links: [
+    { source: 1, target: 3 },
+    { source: 2, target: 3 },
+    { source: 5, target: 3, kind: "corequisite" },
+  ],
+};
+
+describe("diffDatasets", () => {
+  it("finds the subject and link changes", () => {
+    assert.deepEqual(diffDatasets(before, after), [
+      { type: "added-subject", node: subject(5) },
+      { type: "removed-subject", node: subject(4) },
+      {
+        type: "changed-subject",
+        id: 2,
+        field: "label",
+        before: "Subject 2",
+        after: "Renamed",
+      },
+      { type: "added-link", edge: { source: 1, target: 3 } },
+      {
+        type: "added-link",
+        edge: { source: 5, target: 3, kind: "corequisite" },
+      },
+      { type: "removed-link", edge: { source: 1, target: 2 } },
+      { type: "changed-ancestors", id: 2, added: [], removed: [1] },
+      { type: "changed-ancestors", id: 3, added: [5], removed: [] },
+    ]);
+  });
+
+  it("tells links of another kind apart", () => {
+    const changed: GraphData = {
+      ...before,
+      links: [{ source: 1, target: 2, kind: "alternative" }, before.links[1]],
+    };
+    assert.deepEqual(
+      diffDatasets(before, changed).map((change) => change.type),
+      ["added-link", "removed-link"]
+    );
+  });
+
+  it("finds nothing between equal versions", () => {
+    assert.deepEqual(diffDatasets(before, before), []);
+  });
+});
+
+describe("summariseChanges", () => {
+  it("counts the changes of each type", () => {
+    assert.deepEqual(countChanges(diffDatasets(before, after)), {
+      "added-subject": 1,
+      "removed-subject": 1,
+      "changed-subject": 1,
+      "added-link": 2,
+      "removed-link": 1,
+      "changed-ancestors": 2,
+    });
+  });
+
+  it("describes each change on a line", () => {
+    assert.equal(
+      describeChange({
+        type: "changed-ancestors",
+        id: 3,
+        added: [1, 2, 4, 5, 6, 7],
+        removed: [8],
+      }),
+      "3 now required by 1, 2, 4, 5, 6 and 1 more no longer required by 8"
+    );
+  });
+
+  it("lists a few examples of each type", () => {
+    const changes = diffDatasets(before, after).filter(
+      (change) => change.type === "added-link"
+    );
+    assert.equal(
+      summariseChanges(changes, 1),
+      ["2 added-link", "  1 -> 3 (prerequisite)", "  ... and 1 more"].join("\n")
+    );
+    assert.equal(summariseChanges([]), "No changes found.");
+  });
+});
+
+describe("unionGraph", () => {
+  it("keeps the removed subjects and links", () => {
+    const union = unionGraph(before, after, diffDatasets(before, after));
+    assert.deepEqual(
+      union.data.nodes.map((node) => node.id),
+      [1, 2, 3, 5, 4]
+    );
+    assert.deepEqual(
+      [...union.nodes].sort(([a], [b]) => a - b),
+      [
+        [2, "changed"],
+        [3, "affected"],
+        [4, "removed"],
+        [5, "added"],
+      ]
+    );
+    assert.equal(linkStatus(union, { source: 1, target: 2 }), "removed");
+    assert.equal(linkStatus(union, { source: 1, target: 3 }), "added");
+    assert.equal(linkStatus(union, { source: 2, target: 3 }), "unchanged");
+  });
+});
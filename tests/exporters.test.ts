@@ -0,0 +1,30 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { toJson } from "../src/exporters";
+import type { GraphData } from "../src/types";
+
+describe("toJson", () => {
+  it("keeps the optional fields of the nodes", () => {
+    const data: GraphData = {
+      nodes: [
+        {
+          id: 1,
+          label: "Subject 1",
+          url: null,
+          course: null,
+          creditPoints: 12,
+          requisites: { prerequisites: { type: "subject", id: 2 } },
+        },
+        { id: 2, label: "Subject 2", url: null, course: null },
+      ],
+      links: [{ source: 1, target: 2 }],
+    };
+    assert.deepEqual(JSON.parse(toJson(data)), data);
+  });
+
+  it("leaves out the layout state of the renderers", () => {
+    const node = { id: 1, label: null, url: null, course: null };
+    const data = { nodes: [{ ...node, x: 4, y: 2 }], links: [] };
+    assert.deepEqual(JSON.parse(toJson(data)).nodes, [node]);
+  });
+});
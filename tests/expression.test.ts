@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  ExpressionError,
+  evaluateExpression,
+  parseExpression,
+} from "../src/expression";
+import { Graph } from "../src/graph";
+
+// 1 requires 2 and 3, 2 requires 4 and 3 requires 4 through 5
+const graph = new Graph({
+  nodes: [
+    { id: 1, label: "Capstone", url: null, course: "Engineering" },
+    { id: 2, label: "Data Structures", url: null, course: "Engineering" },
+    { id: 3, label: "Databases", url: null, course: "Information Technology" },
+    { id: 4, label: "Programming", url: null, course: "Engineering" },
+    { id: 5, label: "Data Modelling", url: null, course: null },
+  ],
+  links: [
+    { source: 1, target: 2 },
+    { source: 1, target: 3 },
+    { source: 2, target: 4 },
+    { source: 3, target: 5 },
+    { source: 5, target: 4 },
+  ],
+});
+
+const run = (query: string) =>
+  evaluateExpression(parseExpression(query), graph).sort((a, b) => a - b);
+
+/**
+ * Returns where reading a query failed.
+ */
+const errorAt = (query: string) => {
+  try {
+    parseExpression(query);
+  } catch (error) {
+    assert.ok(error instanceof ExpressionError);
+    return error.position;
+  }
+  assert.fail(`"${query}" was read`);
+};
+
+describe("parseExpression", () => {
+  it("takes intersections before unions and differences", () => {
+    assert.deepEqual(parseExpression("1 | 2 & 3 - 4"), {
+      type: "binary",
+      operator: "-",
+      left: {
+        type: "binary",
+        operator: "|",
+        left: { type: "subject", id: 1 },
+        right: {
+          type: "binary",
+          operator: "&",
+          left: { type: "subject", id: 2 },
+          right: { type: "subject", id: 3 },
+        },
+      },
+      right: { type: "subject", id: 4 },
+    });
+  });
+
+  it("reads calls, hops, filters and paths", () => {
+    assert.deepEqual(parseExpression("Descendants(*, 2)"), {
+      type: "call",
+      name: "descendants",
+      argument: { type: "all" },
+      maxDepth: 2,
+    });
+    assert.deepEqual(parseExpression('label~"data \\"x\\""'), {
+      type: "filter",
+      field: "label",
+      operator: "~",
+      value: 'data "x"',
+    });
+    assert.deepEqual(parseExpression("path(1, all)"), {
+      type: "path",
+      source: { type: "subject", id: 1 },
+      target: { type: "all" },
+    });
+  });
+
+  it("points at the first mistake", () => {
+    assert.equal(errorAt(""), 0);
+    assert.equal(errorAt("1 2"), 2);
+    assert.equal(errorAt("ancestors(1"), 11);
+    assert.equal(errorAt("parents(1, 2)"), 9);
+    assert.equal(errorAt('label:"data'), 6);
+    assert.equal(errorAt("1 $ 2"), 2);
+  });
+
+  it("rejects unknown functions, inherited names included", () => {
+    assert.equal(errorAt("1 | grandparents(1)"), 4);
+    assert.equal(errorAt("constructor(1)"), 0);
+  });
+});
+
+describe("evaluateExpression", () => {
+  it("finds relatives up to a number of hops", () => {
+    assert.deepEqual(run("descendants(1)"), [2, 3, 4, 5]);
+    assert.deepEqual(run("descendants(1, 1)"), [2, 3]);
+    assert.deepEqual(run("ancestors(4)"), [1, 2, 3, 5]);
+  });
+
+  it("combines queries", () => {
+    assert.deepEqual(run("descendants(1) & ancestors(4)"), [2, 3, 5]);
+    assert.deepEqual(run("descendants(1) - children(1)"), [4, 5]);
+    assert.deepEqual(run("parents(2) | parents(5)"), [1, 3]);
+  });
+
+  it("filters subjects by field, ignoring case", () => {
+    assert.deepEqual(run("course:engineering"), [1, 2, 4]);
+    assert.deepEqual(run('label~"DATA"'), [2, 3, 5]);
+    assert.deepEqual(run("* - course:Engineering"), [3, 5]);
+  });
+
+  it("follows the shortest paths between the sets", () => {
+    assert.deepEqual(run("path(1, 4)"), [1, 2, 4]);
+    assert.deepEqual(run("path(4, 1)"), []);
+  });
+
+  it("ignores subjects not in the graph", () => {
+    assert.deepEqual(run("9 | ancestors(9)"), []);
+  });
+});
@@ -0,0 +1,200 @@
+import assert from "node:assert/strict";
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+import {
+  importHandbook,
+  parseRequisites,
+  parseSubjectPage,
+  subjectId,
+} from "../src/handbook";
+import { handbookCode } from "../src/subjects";
+import type { GraphData } from "../src/types";
+
+const FIXTURES = fileURLToPath(new URL("fixtures/handbook", import.meta.url));
+
+const readPage = async (fileName: string) => ({
+  fileName,
+  html: await readFile(join(FIXTURES, fileName), "utf8"),
+});
+
+const readPages = async () =>
+  Promise.all((await readdir(FIXTURES)).sort().map(readPage));
+
+describe("subjectId", () => {
+  it("reads five digit codes as they are", () => {
+    assert.equal(subjectId("48024"), 48024);
+  });
+
+  it("drops the check digit of six digit codes", () => {
+    assert.equal(subjectId("010029"), 1002);
+    assert.equal(subjectId("976111"), 97611);
+  });
+
+  it("matches the ids of the bundled dataset", async () => {
+    const data: GraphData = JSON.parse(
+      await readFile(new URL("../src/data.json", import.meta.url), "utf8")
+    );
+    const mismatched = data.nodes.filter((node) => {
+      const code = handbookCode(node);
+      return code !== null && subjectId(code) !== node.id;
+    });
+    assert.deepEqual(mismatched, []);
+  });
+});
+
+describe("parseRequisites", () => {
+  it("binds AND tighter than OR", () => {
+    assert.deepEqual(parseRequisites("48023 OR 31251 AND 48 credit points"), {
+      prerequisites: {
+        type: "or",
+        of: [
+          { type: "subject", id: 48023 },
+          {
+            type: "and",
+            of: [
+              { type: "subject", id: 31251 },
+              { type: "credits", points: 48 },
+            ],
+          },
+        ],
+      },
+      corequisites: undefined,
+    });
+  });
+
+  it("groups parentheses", () => {
+    assert.deepEqual(parseRequisites("(48023 OR 31251) AND 48 credit points"), {
+      prerequisites: {
+        type: "and",
+        of: [
+          {
+            type: "or",
+            of: [
+              { type: "subject", id: 48023 },
+              { type: "subject", id: 31251 },
+            ],
+          },
+          { type: "credits", points: 48 },
+        ],
+      },
+      corequisites: undefined,
+    });
+  });
+
+  it("moves outright corequisites out of the prerequisites", () => {
+    assert.deepEqual(parseRequisites("48023 AND 31271c"), {
+      prerequisites: { type: "subject", id: 48023 },
+      corequisites: { type: "subject", id: 31271 },
+    });
+  });
+
+  it("keeps corequisites inside OR groups as alternatives", () => {
+    assert.deepEqual(parseRequisites("48023 OR 31271c"), {
+      prerequisites: {
+        type: "or",
+        of: [
+          { type: "subject", id: 48023 },
+          { type: "subject", id: 31271 },
+        ],
+      },
+      corequisites: undefined,
+    });
+  });
+});
+
+describe("parseSubjectPage", () => {
+  it("reads the fields of a subject page", async () => {
+    const { fileName, html } = await readPage("48024.html");
+    assert.deepEqual(parseSubjectPage(html, fileName), {
+      code: "48024",
+      label: "Applications Programming",
+      url: "https://handbook.uts.edu.au/subjects/48024.html",
+      course: "Information Technology",
+      creditPoints: 6,
+      requisites: {
+        prerequisites: { type: "subject", id: 48023 },
+        corequisites: { type: "subject", id: 31271 },
+        antirequisites: [31927],
+      },
+      references: ["48023", "31271", "31927"],
+    });
+  });
+
+  it("keeps the code of six digit subjects", async () => {
+    const { fileName, html } = await readPage("010029.html");
+    const subject = parseSubjectPage(html, fileName);
+    assert.equal(
+      typeof subject === "string" ? subject : subject.code,
+      "010029"
+    );
+  });
+
+  it("falls back on the file name and handbook url", async () => {
+    const { fileName, html } = await readPage("48023.html");
+    const subject = parseSubjectPage(html, fileName);
+    assert.ok(typeof subject !== "string");
+    assert.equal(subject.code, "48023");
+    assert.equal(subject.label, "Programming Fundamentals");
+    assert.equal(
+      subject.url,
+      "https://handbook.uts.edu.au/subjects/48023.html"
+    );
+  });
+
+  it("rejects pages without a subject heading", async () => {
+    const { fileName, html } = await readPage("search.html");
+    assert.equal(parseSubjectPage(html, fileName), "no <h1> subject heading");
+  });
+});
+
+describe("importHandbook", () => {
+  it("builds the dataset from a directory of pages", async () => {
+    const { data } = importHandbook(await readPages());
+    assert.deepEqual(
+      data.nodes.map((node) => node.id),
+      [1002, 31271, 31927, 41092, 48023, 48024]
+    );
+    assert.deepEqual(data.links, [
+      { source: 41092, target: 48023, kind: "alternative" },
+      { source: 41092, target: 1002, kind: "alternative" },
+      { source: 48024, target: 48023 },
+      { source: 48024, target: 31271, kind: "corequisite" },
+      { source: 48024, target: 31927, kind: "antirequisite" },
+    ]);
+  });
+
+  it("keeps referenced subjects without a page as bare nodes", async () => {
+    const { data } = importHandbook(await readPages());
+    assert.deepEqual(
+      data.nodes.find((node) => node.id === 31271),
+      { id: 31271, label: null, url: null, course: null }
+    );
+  });
+
+  it("reports unparseable pages and unresolved references", async () => {
+    const { problems } = importHandbook(await readPages());
+    assert.deepEqual(problems, [
+      {
+        type: "unparseable",
+        source: "search.html",
+        message: "no <h1> subject heading",
+      },
+      { type: "unresolved", source: "48024", code: "31271" },
+      { type: "unresolved", source: "48024", code: "31927" },
+    ]);
+  });
+
+  it("reports unresolved six digit codes as written", () => {
+    const { problems } = importHandbook([
+      {
+        fileName: "48023.html",
+        html: "<h1>48023 Programming Fundamentals</h1><p>Requisite(s): 010029 Introductory Programming</p>",
+      },
+    ]);
+    assert.deepEqual(problems, [
+      { type: "unresolved", source: "48023", code: "010029" },
+    ]);
+  });
+});
@@ -0,0 +1,149 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Graph } from "../src/graph";
+import { studyPlan } from "../src/plan";
+import type { DirectedEdge, Node, Requisites } from "../src/types";
+
+/**
+ * Builds a graph of the subjects 1 to `count` and the given links, with the
+ * requisites given for some subjects.
+ */
+const graphOf = (
+  count: number,
+  links: DirectedEdge[],
+  requisites: Record<number, Requisites> = {}
+) =>
+  new Graph({
+    nodes: Array.from(
+      { length: count },
+      (_, i): Node => ({
+        id: i + 1,
+        label: `Subject ${i + 1}`,
+        url: null,
+        course: null,
+        requisites: requisites[i + 1],
+      })
+    ),
+    links,
+  });
+
+describe("studyPlan", () => {
+  it("orders prerequisites by semester", () => {
+    const graph = graphOf(3, [
+      { source: 1, target: 2 },
+      { source: 2, target: 3 },
+    ]);
+    assert.deepEqual(studyPlan([1], [], 4, graph), {
+      semesters: [[3], [2], [1]],
+      unschedulable: [],
+    });
+  });
+
+  it("skips an OR group met by a completed alternative", () => {
+    const graph = graphOf(3, [
+      { source: 1, target: 2, kind: "alternative" },
+      { source: 1, target: 3, kind: "alternative" },
+    ]);
+    assert.deepEqual(studyPlan([1], [3], 4, graph).semesters, [[1]]);
+  });
+
+  it("builds on completed subjects inside OR groups", () => {
+    // 1 requires 2 OR (3 AND 4), and 4 is completed
+    const graph = graphOf(4, [], {
+      1: {
+        prerequisites: {
+          type: "or",
+          of: [
+            { type: "subject", id: 2 },
+            {
+              type: "and",
+              of: [
+                { type: "subject", id: 3 },
+                { type: "subject", id: 4 },
+              ],
+            },
+          ],
+        },
+      },
+      2: {
+        prerequisites: { type: "subject", id: 3 },
+      },
+    });
+    assert.deepEqual(studyPlan([1], [4], 4, graph).semesters, [[3], [1]]);
+  });
+
+  it("places corequisites in the same semester", () => {
+    const graph = graphOf(2, [{ source: 1, target: 2, kind: "corequisite" }]);
+    assert.deepEqual(studyPlan([1], [], 4, graph).semesters, [[2, 1]]);
+  });
+
+  it("keeps corequisites together within the load", () => {
+    const graph = graphOf(3, [{ source: 1, target: 2, kind: "corequisite" }]);
+    assert.deepEqual(studyPlan([1, 3], [], 2, graph).semesters, [[2, 1], [3]]);
+  });
+
+  it("counts the credit points of planned subjects", () => {
+    const graph = graphOf(3, [], {
+      1: {
+        prerequisites: {
+          type: "and",
+          of: [
+            { type: "subject", id: 2 },
+            { type: "credits", points: 12 },
+          ],
+        },
+      },
+    });
+    assert.deepEqual(studyPlan([1], [3], 4, graph).semesters, [[2], [1]]);
+  });
+
+  it("reports a shortfall of credit points", () => {
+    const graph = graphOf(1, [], {
+      1: { prerequisites: { type: "credits", points: 48 } },
+    });
+    assert.deepEqual(studyPlan([1], [], 4, graph), {
+      semesters: [],
+      unschedulable: [{ id: 1, reason: "credits" }],
+    });
+  });
+
+  it("reports cycles and the subjects behind them", () => {
+    const graph = graphOf(4, [
+      { source: 1, target: 2 },
+      { source: 2, target: 3 },
+      { source: 3, target: 2 },
+      { source: 3, target: 4 },
+    ]);
+    const { semesters, unschedulable } = studyPlan([1], [], 4, graph);
+    assert.deepEqual(semesters, [[4]]);
+    assert.deepEqual(
+      unschedulable.sort((a, b) => a.id - b.id),
+      [
+        { id: 1, reason: "blocked" },
+        { id: 2, reason: "cycle" },
+        { id: 3, reason: "cycle" },
+      ]
+    );
+  });
+
+  it("reports targets missing from the dataset", () => {
+    assert.deepEqual(studyPlan([9], [], 4, graphOf(1, [])), {
+      semesters: [],
+      unschedulable: [{ id: 9, reason: "missing" }],
+    });
+  });
+
+  it("keeps each semester within the load", () => {
+    const graph = graphOf(5, [
+      { source: 1, target: 2 },
+      { source: 1, target: 3 },
+      { source: 1, target: 4 },
+      { source: 1, target: 5 },
+    ]);
+    assert.deepEqual(studyPlan([1], [], 2, graph).semesters, [
+      [2, 3],
+      [4, 5],
+      [1],
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Graph } from "../src/graph";
+import { subjectTree } from "../src/queries";
+import type { TreeOptions } from "../src/queries";
+
+// 1 requires 2 and 3, 2 requires 4, 3 requires 5 and 6 requires 2; 7 has no
+// links at all
+const graph = new Graph({
+  nodes: [1, 2, 3, 4, 5, 6, 7].map((id) => ({
+    id,
+    label: `Subject ${id}`,
+    url: null,
+    course: null,
+  })),
+  links: [
+    { source: 1, target: 2 },
+    { source: 1, target: 3 },
+    { source: 2, target: 4 },
+    { source: 3, target: 5 },
+    { source: 6, target: 2 },
+  ],
+});
+
+const options = (options: Partial<TreeOptions>): TreeOptions => ({
+  relations: [],
+  minimal: false,
+  ancestorDepth: Infinity,
+  descendantDepth: Infinity,
+  ...options,
+});
+
+const distances = (id: number, treeOptions: TreeOptions) =>
+  [...subjectTree(id, treeOptions, graph)]
+    .map(([vertex, { distance }]) => [vertex, distance])
+    .sort(([a], [b]) => a - b);
+
+describe("subjectTree", () => {
+  it("keeps the closest relation of each subject", () => {
+    const tree = subjectTree(
+      2,
+      options({ relations: ["self", "parents", "ancestors"] }),
+      graph
+    );
+    assert.deepEqual(
+      [...tree].sort(([a], [b]) => a - b),
+      [
+        [1, { relation: "parents", distance: 1 }],
+        [2, { relation: "self", distance: 0 }],
+        [6, { relation: "parents", distance: 1 }],
+      ]
+    );
+  });
+
+  it("follows the depth of each direction in a tree", () => {
+    assert.deepEqual(
+      distances(4, options({ relations: ["tree"], ancestorDepth: 1 })),
+      [
+        [2, 1],
+        [4, 0],
+      ]
+    );
+    assert.deepEqual(
+      distances(1, options({ relations: ["tree"], descendantDepth: 1 })),
+      [
+        [1, 0],
+        [2, 1],
+        [3, 1],
+      ]
+    );
+  });
+
+  it("follows the depth of each direction in a web", () => {
+    assert.deepEqual(
+      distances(2, options({ relations: ["web"], descendantDepth: 0 })),
+      [
+        [1, 1],
+        [6, 1],
+      ]
+    );
+  });
+
+  it("puts isolated subjects out of reach", () => {
+    assert.deepEqual(distances(2, options({ relations: ["isolated"] })), [
+      [7, Infinity],
+    ]);
+  });
+});
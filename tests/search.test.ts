@@ -0,0 +1,327 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Graph } from "../src/graph";
+import {
+  combine,
+  cycles,
+  dijkstraShortestPath,
+  frontier,
+  hopDistances,
+  isolatedNodes,
+  kShortestPaths,
+  membership,
+  relatives,
+  stronglyConnectedComponents,
+  subjectStatus,
+} from "../src/search";
+import type { EdgeWeight } from "../src/search";
+import type { DirectedEdge, Node, Requisites } from "../src/types";
+
+/**
+ * Builds a graph of the subjects 1 to `count` and the given links, with the
+ * requisites given for some subjects.
+ */
+const graphOf = (
+  count: number,
+  links: DirectedEdge[],
+  requisites: Record<number, Requisites> = {}
+) =>
+  new Graph({
+    nodes: Array.from(
+      { length: count },
+      (_, i): Node => ({
+        id: i + 1,
+        label: `Subject ${i + 1}`,
+        url: null,
+        course: null,
+        requisites: requisites[i + 1],
+      })
+    ),
+    links,
+  });
+
+const sorted = (ids: Iterable<number>) => [...ids].sort((a, b) => a - b);
+
+// Distances sorted by vertex, to compare maps regardless of visiting order
+const entries = (distances: Map<number, number>) =>
+  [...distances].sort(([a], [b]) => a - b);
+
+// 1 requires 2 and 3, 2 requires 4, 3 requires 5 and 6 requires 2; 7 has no
+// links at all
+const family = () =>
+  graphOf(7, [
+    { source: 1, target: 2 },
+    { source: 1, target: 3 },
+    { source: 2, target: 4 },
+    { source: 3, target: 5 },
+    { source: 6, target: 2 },
+  ]);
+
+describe("relatives", () => {
+  it("finds the direct neighbours", () => {
+    const graph = family();
+    assert.deepEqual(sorted(relatives(2, graph, "parents")), [1, 6]);
+    assert.deepEqual(sorted(relatives(2, graph, "children")), [4]);
+  });
+
+  it("finds siblings through every parent", () => {
+    assert.deepEqual(sorted(relatives(2, family(), "siblings")), [3]);
+  });
+
+  it("finds cousins below the siblings", () => {
+    assert.deepEqual(sorted(relatives(2, family(), "cousins")), [5]);
+  });
+
+  it("finds ancestors and descendants as related", () => {
+    assert.deepEqual(sorted(relatives(2, family(), "related")), [1, 4, 6]);
+  });
+
+  it("keeps the subject in its tree but not in its web", () => {
+    const graph = family();
+    assert.deepEqual(sorted(relatives(2, graph, "tree")), [1, 2, 4, 6]);
+    assert.deepEqual(sorted(relatives(2, graph, "web")), [1, 3, 4, 5, 6]);
+  });
+
+  it("limits traversals to a number of hops", () => {
+    assert.deepEqual(sorted(relatives(1, family(), "descendants", 1)), [2, 3]);
+  });
+
+  it("finds the isolated subjects wherever the subject is", () => {
+    assert.deepEqual(relatives(2, family(), "isolated"), [7]);
+  });
+});
+
+describe("isolatedNodes", () => {
+  it("returns the nodes without links", () => {
+    assert.deepEqual(isolatedNodes(family()), [7]);
+  });
+
+  it("ignores antirequisites", () => {
+    const graph = graphOf(3, [
+      { source: 1, target: 2 },
+      { source: 3, target: 1, kind: "antirequisite" },
+    ]);
+    assert.deepEqual(isolatedNodes(graph), [3]);
+  });
+});
+
+describe("hopDistances", () => {
+  it("counts the hops to each vertex", () => {
+    assert.deepEqual(entries(hopDistances(1, family(), "descendants")), [
+      [1, 0],
+      [2, 1],
+      [3, 1],
+      [4, 2],
+      [5, 2],
+    ]);
+  });
+
+  it("limits the hops of a walk in either direction", () => {
+    assert.deepEqual(entries(hopDistances(2, family(), "web", 1)), [
+      [1, 1],
+      [2, 0],
+      [4, 1],
+      [6, 1],
+    ]);
+  });
+
+  it("limits each direction of a tree separately", () => {
+    const graph = family();
+    assert.deepEqual(
+      entries(hopDistances(2, graph, "tree", { ancestors: 1, descendants: 0 })),
+      [
+        [1, 1],
+        [2, 0],
+        [6, 1],
+      ]
+    );
+    assert.deepEqual(
+      entries(hopDistances(2, graph, "tree", { ancestors: 0, descendants: 1 })),
+      [
+        [2, 0],
+        [4, 1],
+      ]
+    );
+  });
+
+  it("limits the hops up and down a web separately", () => {
+    const graph = family();
+    assert.deepEqual(
+      entries(hopDistances(2, graph, "web", { ancestors: 1, descendants: 1 })),
+      [
+        [1, 1],
+        [2, 0],
+        [3, 2],
+        [4, 1],
+        [6, 1],
+      ]
+    );
+    assert.deepEqual(
+      entries(
+        hopDistances(2, graph, "web", { ancestors: 1, descendants: Infinity })
+      ),
+      [
+        [1, 1],
+        [2, 0],
+        [3, 2],
+        [4, 1],
+        [5, 3],
+        [6, 1],
+      ]
+    );
+  });
+});
+
+describe("subjectStatus", () => {
+  it("follows the prerequisite rule", () => {
+    const graph = family();
+    const completed = new Set([4]);
+    assert.equal(subjectStatus(4, completed, graph), "completed");
+    assert.equal(subjectStatus(2, completed, graph), "available");
+    assert.equal(subjectStatus(1, completed, graph), "locked");
+  });
+
+  it("excludes antirequisites of completed subjects either way", () => {
+    const graph = graphOf(3, [{ source: 1, target: 2, kind: "antirequisite" }]);
+    assert.equal(subjectStatus(1, new Set([2]), graph), "excluded");
+    assert.equal(subjectStatus(2, new Set([1]), graph), "excluded");
+    assert.equal(subjectStatus(3, new Set([1]), graph), "available");
+  });
+});
+
+describe("frontier", () => {
+  it("offers the parents whose prerequisites are all completed", () => {
+    assert.deepEqual(sorted(frontier(new Set([4, 5]), family())), [2, 3]);
+    assert.deepEqual(sorted(frontier(new Set([2, 4]), family())), [6]);
+  });
+
+  it("offers subjects asking only for credit points", () => {
+    const graph = graphOf(3, [], {
+      1: { prerequisites: { type: "credits", points: 12 } },
+    });
+    assert.deepEqual(frontier(new Set([2]), graph), []);
+    assert.deepEqual(frontier(new Set([2, 3]), graph), [1]);
+  });
+
+  it("leaves out antirequisites of completed subjects", () => {
+    const graph = graphOf(3, [
+      { source: 1, target: 2 },
+      { source: 3, target: 2 },
+      { source: 3, target: 1, kind: "antirequisite" },
+    ]);
+    assert.deepEqual(frontier(new Set([2]), graph), [1, 3]);
+    assert.deepEqual(frontier(new Set([1, 2]), graph), []);
+  });
+});
+
+describe("stronglyConnectedComponents", () => {
+  it("puts every vertex in one component", () => {
+    const graph = graphOf(5, [
+      { source: 1, target: 2 },
+      { source: 2, target: 3 },
+      { source: 3, target: 1 },
+      { source: 3, target: 4 },
+      { source: 4, target: 5 },
+      { source: 5, target: 4 },
+    ]);
+    assert.deepEqual(
+      stronglyConnectedComponents(graph)
+        .map(sorted)
+        .sort((a, b) => a[0] - b[0]),
+      [
+        [1, 2, 3],
+        [4, 5],
+      ]
+    );
+  });
+
+  it("keeps the vertices of an acyclic graph apart", () => {
+    assert.deepEqual(
+      sorted(stronglyConnectedComponents(family()).map((c) => c.length)),
+      [1, 1, 1, 1, 1, 1]
+    );
+  });
+});
+
+describe("cycles", () => {
+  it("finds loops and subjects requiring themselves", () => {
+    const graph = graphOf(4, [
+      { source: 1, target: 2 },
+      { source: 2, target: 1 },
+      { source: 3, target: 3 },
+      { source: 3, target: 4 },
+    ]);
+    assert.deepEqual(
+      cycles(graph)
+        .map(sorted)
+        .sort((a, b) => a[0] - b[0]),
+      [[1, 2], [3]]
+    );
+    assert.deepEqual(cycles(family()), []);
+  });
+});
+
+describe("kShortestPaths", () => {
+  // 1 requires 2, 3 and 4, which both 2 and 3 require
+  const diamond = () =>
+    graphOf(4, [
+      { source: 1, target: 2 },
+      { source: 1, target: 3 },
+      { source: 1, target: 4 },
+      { source: 2, target: 4 },
+      { source: 3, target: 4 },
+    ]);
+  // Leading to 2 costs more than any other edge
+  const heavy: EdgeWeight = (_source, target) => (target === 2 ? 5 : 1);
+
+  it("finds the cheapest path first", () => {
+    assert.deepEqual(dijkstraShortestPath(1, 4, diamond()), [1, 4]);
+    assert.deepEqual(dijkstraShortestPath(4, 1, diamond()), []);
+  });
+
+  it("finds the next cheapest loopless paths in order", () => {
+    const paths = kShortestPaths(1, 4, 3, diamond(), heavy);
+    assert.deepEqual(paths, [
+      { path: [1, 4], cost: 1 },
+      { path: [1, 3, 4], cost: 2 },
+      { path: [1, 2, 4], cost: 6 },
+    ]);
+  });
+
+  it("stops when no paths are left", () => {
+    assert.equal(kShortestPaths(1, 4, 10, diamond()).length, 3);
+    assert.deepEqual(kShortestPaths(4, 1, 3, diamond()), []);
+    assert.deepEqual(kShortestPaths(1, 4, 0, diamond()), []);
+  });
+});
+
+describe("combine", () => {
+  const sets = [
+    [1, 2, 3],
+    [2, 3, 4],
+    [3, 5],
+  ];
+
+  it("tells which sets each vertex is in", () => {
+    assert.deepEqual(
+      [...membership(sets)].sort(([a], [b]) => a - b),
+      [
+        [1, [0]],
+        [2, [0, 1]],
+        [3, [0, 1, 2]],
+        [4, [1]],
+        [5, [2]],
+      ]
+    );
+  });
+
+  it("combines the sets", () => {
+    assert.deepEqual(sorted(combine(sets, "union")), [1, 2, 3, 4, 5]);
+    assert.deepEqual(sorted(combine(sets, "intersection")), [3]);
+    assert.deepEqual(sorted(combine(sets, "symmetricDifference")), [1, 4, 5]);
+  });
+
+  it("counts a vertex repeated within a set once", () => {
+    assert.deepEqual(combine([[1, 1], [2]], "symmetricDifference"), [1, 2]);
+  });
+});